@@ -1,12 +1,10 @@
-import React, { useEffect, useState } from 'react';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../../store';
-import { fetchDataSources, deleteDataSource } from '../../../store/slices/dataSourcesSlice';
+import React, { useState } from 'react';
+import { useDataSources } from '../../../hooks/useDataSources';
 import { DataSource, ConnectionStatus } from '../../../types/dataSource';
 import { Button } from '../../common/Button';
 import { Card } from '../../common/Card';
 import { Badge } from '../../common/Badge';
-import { formatDate } from '../../../utils/formatters';
+import { formatDate, formatError } from '../../../utils/formatters';
 
 interface DataSourceListProps {
   onEdit: (dataSource: DataSource) => void;
@@ -14,17 +12,12 @@ interface DataSourceListProps {
 }
 
 export const DataSourceList: React.FC<DataSourceListProps> = ({ onEdit, onTest }) => {
-  const dispatch = useDispatch<AppDispatch>();
-  const { dataSources, loading, error } = useSelector((state: RootState) => state.dataSources);
+  const { dataSources, isLoading: loading, error, deleteDataSource } = useDataSources();
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
 
-  useEffect(() => {
-    dispatch(fetchDataSources());
-  }, [dispatch]);
-
   const handleDelete = async (id: string) => {
     if (deleteConfirm === id) {
-      await dispatch(deleteDataSource(id));
+      await deleteDataSource(id);
       setDeleteConfirm(null);
     } else {
       setDeleteConfirm(id);
@@ -50,7 +43,7 @@ export const DataSourceList: React.FC<DataSourceListProps> = ({ onEdit, onTest }
   }
 
   if (error) {
-    return <div className="error">Error loading data sources: {error}</div>;
+    return <div className="error">Error loading data sources: {formatError(error)}</div>;
   }
 
   if (dataSources.length === 0) {
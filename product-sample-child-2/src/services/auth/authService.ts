@@ -74,13 +74,15 @@ class AuthService {
     window.history.replaceState({}, document.title, window.location.pathname);
   }
 
-  async getAccessToken(): Promise<string | null> {
+  async getAccessToken(forceRefresh = false): Promise<string | null> {
     if (!this.auth0Client) {
       throw new Error('Auth service not initialized');
     }
     
     try {
-      const token = await this.auth0Client.getTokenSilently();
+      const token = await this.auth0Client.getTokenSilently({
+        cacheMode: forceRefresh ? 'off' : 'on',
+      });
       return token;
     } catch (error) {
       console.error('Error getting access token:', error);
@@ -0,0 +1,81 @@
+/**
+ * Syncs data sources with a definition file kept in a repository.
+ *
+ *   REACT_APP_API_URL=https://config.example.com/api \
+ *   DATA_SOURCES_API_TOKEN=... \
+ *   npx ts-node scripts/sync-data-sources.ts <plan|apply> <file> [--prune]
+ *
+ * `plan` prints the changes without making them. `apply` prints the plan, applies
+ * it and rolls every change back if one fails. `--prune` also deletes data sources
+ * that are not in the file. The file uses the export format (JSON, YAML or CSV).
+ *
+ * Exit codes: 0 on success, 1 when the plan is invalid or applying it failed,
+ * 2 on bad usage.
+ */
+import { readFileSync } from 'fs';
+import { apiClient } from '../src/services/api/client';
+import { detectImportFormat, parseImportFile } from '../src/utils/dataSourceImport';
+import {
+  fetchSyncPlan,
+  applySyncPlan,
+  formatSyncPlan,
+  formatSyncReport,
+} from '../src/services/sync/dataSourceSync';
+
+const USAGE = 'Usage: sync-data-sources <plan|apply> <file> [--prune]';
+
+const main = async (): Promise<number> => {
+  const args = process.argv.slice(2);
+  const [command, file] = args.filter(arg => !arg.startsWith('--'));
+  const prune = args.includes('--prune');
+
+  if ((command !== 'plan' && command !== 'apply') || !file) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const format = detectImportFormat(file);
+  if (!format) {
+    console.error(`Unsupported file type: ${file}`);
+    return 2;
+  }
+
+  // Outside the browser there is no stored session; authenticate with a token instead
+  const token = process.env.DATA_SOURCES_API_TOKEN;
+  if (token) {
+    apiClient.use({
+      name: 'auth',
+      onRequest: config => {
+        config.headers = { ...config.headers, Authorization: `Bearer ${token}` } as typeof config.headers;
+        return config;
+      },
+    });
+  } else {
+    // The browser's auth middleware reads a stored session, which Node does not have
+    apiClient.eject('auth');
+  }
+
+  const desired = parseImportFile(readFileSync(file, 'utf8'), format);
+  const plan = await fetchSyncPlan(desired, { prune });
+  console.log(formatSyncPlan(plan));
+
+  if (plan.errors.length > 0) {
+    return 1;
+  }
+  if (command === 'plan' || plan.changes.length === 0) {
+    return 0;
+  }
+
+  const report = await applySyncPlan(plan);
+  console.log(formatSyncReport(report));
+  return report.status === 'applied' ? 0 : 1;
+};
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
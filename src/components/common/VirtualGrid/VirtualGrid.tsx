@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useVirtualWindow } from '../../../hooks/useVirtualWindow';
+import { VirtualGridProps } from './types';
+
+/**
+ * Responsive grid that only mounts the rows currently on screen
+ */
+export function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  itemHeight,
+  minItemWidth,
+  gap = 24,
+  height,
+  overscan = 2,
+  className,
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(1);
+
+  // Fit as many columns as the container width allows
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const width = entry.contentRect.width;
+      setColumns(Math.max(1, Math.floor((width + gap) / (minItemWidth + gap))));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [minItemWidth, gap]);
+
+  const rowHeight = itemHeight + gap;
+  const rowCount = Math.ceil(items.length / columns);
+  const { startRow, endRow, totalHeight } = useVirtualWindow(containerRef, {
+    rowCount,
+    rowHeight,
+    overscan,
+    scrollContainer: height !== undefined,
+  });
+
+  const firstIndex = startRow * columns;
+  const visibleItems = items.slice(firstIndex, endRow * columns);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={height !== undefined ? { maxHeight: height, overflowY: 'auto' } : undefined}
+    >
+      <div style={{ position: 'relative', height: totalHeight }}>
+        <div
+          style={{
+            position: 'absolute',
+            top: startRow * rowHeight,
+            left: 0,
+            right: 0,
+            display: 'grid',
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            gridAutoRows: itemHeight,
+            gap,
+          }}
+        >
+          {visibleItems.map((item, offset) => (
+            <React.Fragment key={getKey(item)}>
+              {renderItem(item, firstIndex + offset)}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { VirtualGrid } from './VirtualGrid';
+export type { VirtualGridProps } from './types';
@@ -0,0 +1,45 @@
+export interface VirtualGridProps<T> {
+  /**
+   * Items to lay out in the grid
+   */
+  items: T[];
+
+  /**
+   * Stable key for each item
+   */
+  getKey: (item: T) => string;
+
+  /**
+   * Renders one grid cell
+   */
+  renderItem: (item: T, index: number) => React.ReactNode;
+
+  /**
+   * Fixed cell height in pixels
+   */
+  itemHeight: number;
+
+  /**
+   * Narrowest a column may get; the column count follows the container width
+   */
+  minItemWidth: number;
+
+  /**
+   * Space between cells in pixels
+   * @default 24
+   */
+  gap?: number;
+
+  /**
+   * Scroll inside a box at most this tall instead of with the page
+   */
+  height?: number;
+
+  /**
+   * Extra rows rendered above and below the viewport
+   * @default 2
+   */
+  overscan?: number;
+
+  className?: string;
+}
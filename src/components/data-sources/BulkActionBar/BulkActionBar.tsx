@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Autocomplete,
+  TextField,
+  Chip,
+} from '@mui/material';
+import {
+  PlayArrow as EnableIcon,
+  Pause as DisableIcon,
+  Delete as DeleteIcon,
+  LocalOffer as TagIcon,
+  NetworkCheck as TestIcon,
+  FileDownload as ExportIcon,
+  Close as ClearIcon,
+} from '@mui/icons-material';
+import { BulkActionBarProps } from './types';
+import styles from './BulkActionBar.module.css';
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  availableTags = [],
+  onAction,
+  onExport,
+  onClear,
+  disabled = false,
+}) => {
+  const [tagDialogOpen, setTagDialogOpen] = useState(false);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+
+  const handleDelete = () => {
+    if (window.confirm(`Are you sure you want to delete ${selectedCount} data sources?`)) {
+      onAction({ type: 'delete' });
+    }
+  };
+
+  const handleApplyTags = () => {
+    onAction({ type: 'tag', add: tagsToAdd, remove: tagsToRemove });
+    setTagDialogOpen(false);
+    setTagsToAdd([]);
+    setTagsToRemove([]);
+  };
+
+  const renderTagInput = (
+    label: string,
+    value: string[],
+    onChange: (tags: string[]) => void
+  ) => (
+    <Autocomplete
+      multiple
+      freeSolo
+      options={availableTags}
+      value={value}
+      onChange={(_, tags) => onChange(tags.map(tag => tag.trim()).filter(Boolean))}
+      renderTags={(tags, getTagProps) =>
+        tags.map((tag, index) => <Chip size="small" label={tag} {...getTagProps({ index })} />)
+      }
+      renderInput={params => <TextField {...params} label={label} margin="dense" />}
+    />
+  );
+
+  return (
+    <Paper className={styles.bar} elevation={2}>
+      <Typography variant="subtitle1" className={styles.count}>
+        {selectedCount} selected
+      </Typography>
+
+      <Button size="small" startIcon={<EnableIcon />} disabled={disabled} onClick={() => onAction({ type: 'enable' })}>
+        Enable
+      </Button>
+      <Button size="small" startIcon={<DisableIcon />} disabled={disabled} onClick={() => onAction({ type: 'disable' })}>
+        Disable
+      </Button>
+      <Button size="small" startIcon={<TagIcon />} disabled={disabled} onClick={() => setTagDialogOpen(true)}>
+        Tag
+      </Button>
+      <Button size="small" startIcon={<TestIcon />} disabled={disabled} onClick={() => onAction({ type: 'test' })}>
+        Test
+      </Button>
+      <Button size="small" startIcon={<ExportIcon />} disabled={disabled} onClick={onExport}>
+        Export
+      </Button>
+      <Button size="small" color="error" startIcon={<DeleteIcon />} disabled={disabled} onClick={handleDelete}>
+        Delete
+      </Button>
+      <Button size="small" startIcon={<ClearIcon />} onClick={onClear}>
+        Clear
+      </Button>
+
+      <Dialog open={tagDialogOpen} onClose={() => setTagDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Tag {selectedCount} data sources</DialogTitle>
+        <DialogContent>
+          {renderTagInput('Add tags', tagsToAdd, setTagsToAdd)}
+          {renderTagInput('Remove tags', tagsToRemove, setTagsToRemove)}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTagDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleApplyTags}
+            disabled={tagsToAdd.length === 0 && tagsToRemove.length === 0}
+          >
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+BulkActionBar.displayName = 'BulkActionBar';
@@ -0,0 +1,33 @@
+import { BulkAction } from '../../../services/api/dataSources';
+
+export interface BulkActionBarProps {
+  /**
+   * Number of selected data sources
+   */
+  selectedCount: number;
+
+  /**
+   * Tags offered in the tag dialog
+   */
+  availableTags?: string[];
+
+  /**
+   * Run a bulk action on the selection
+   */
+  onAction: (action: BulkAction) => void;
+
+  /**
+   * Download the selection as JSON
+   */
+  onExport: () => void;
+
+  /**
+   * Clear the selection
+   */
+  onClear: () => void;
+
+  /**
+   * Disable the actions, e.g. while a bulk action runs
+   */
+  disabled?: boolean;
+}
@@ -0,0 +1,92 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+  Alert,
+} from '@mui/material';
+import {
+  CheckCircle as SuccessIcon,
+  Error as FailedIcon,
+  HourglassEmpty as PendingIcon,
+} from '@mui/icons-material';
+import { BulkAction } from '../../../services/api/dataSources';
+import { BulkItemStatus } from '../../../store/slices/dataSourcesSlice';
+import { BulkProgressDialogProps } from './types';
+
+const ACTION_LABELS: Record<BulkAction['type'], string> = {
+  enable: 'Enabling',
+  disable: 'Disabling',
+  delete: 'Deleting',
+  tag: 'Tagging',
+  test: 'Testing',
+};
+
+const STATUS_ICONS: Record<BulkItemStatus, React.ReactNode> = {
+  pending: <PendingIcon color="disabled" fontSize="small" />,
+  success: <SuccessIcon color="success" fontSize="small" />,
+  failed: <FailedIcon color="error" fontSize="small" />,
+};
+
+export const BulkProgressDialog: React.FC<BulkProgressDialogProps> = ({
+  open,
+  action,
+  items,
+  getName,
+  running,
+  onClose,
+}) => {
+  const entries = Object.entries(items);
+  const completed = entries.filter(([, item]) => item.status !== 'pending').length;
+  const failures = entries.filter(([, item]) => item.status === 'failed');
+  const percent = entries.length > 0 ? (completed / entries.length) * 100 : 0;
+  const label = action ? ACTION_LABELS[action.type] : 'Updating';
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {label} {entries.length} data sources
+      </DialogTitle>
+      <DialogContent>
+        <LinearProgress variant="determinate" value={percent} />
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          {completed} of {entries.length} done
+          {failures.length > 0 && `, ${failures.length} failed`}
+        </Typography>
+
+        {!running && failures.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {failures.length} of {entries.length} data sources could not be updated.
+          </Alert>
+        )}
+
+        {/* Every item while running; afterwards only what needs attention, plus test outcomes */}
+        <List dense>
+          {entries
+            .filter(([, item]) => running || item.status === 'failed' || action?.type === 'test')
+            .map(([id, item]) => (
+              <ListItem key={id}>
+                <ListItemIcon>{STATUS_ICONS[item.status]}</ListItemIcon>
+                <ListItemText primary={getName(id)} secondary={item.error ?? item.message} />
+              </ListItem>
+            ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          {running ? 'Working...' : 'Close'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+BulkProgressDialog.displayName = 'BulkProgressDialog';
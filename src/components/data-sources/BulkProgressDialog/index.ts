@@ -0,0 +1,2 @@
+export { BulkProgressDialog } from './BulkProgressDialog';
+export type { BulkProgressDialogProps } from './types';
@@ -0,0 +1,25 @@
+import { BulkAction } from '../../../services/api/dataSources';
+import { BulkItemState } from '../../../store/slices/dataSourcesSlice';
+
+export interface BulkProgressDialogProps {
+  open: boolean;
+
+  /**
+   * Action being run
+   */
+  action: BulkAction | null;
+
+  /**
+   * Outcome of each item, keyed by data source id
+   */
+  items: Record<string, BulkItemState>;
+
+  /**
+   * Resolves an id to a display name
+   */
+  getName: (id: string) => string;
+
+  running: boolean;
+
+  onClose: () => void;
+}
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import React, { Suspense, useState } from 'react';
+import { useForm, Controller, FieldPath } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { 
@@ -8,18 +8,33 @@ import {
   MenuItem,
   FormControl,
   FormLabel,
+  ListItemIcon,
+  ListItemText,
   Alert,
   CircularProgress,
   Box,
-  Paper
+  Paper,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions
 } from '@mui/material';
 import { Button } from '../../common/Button';
 import { DataSourceConfig, ConfigurationFormProps } from './types';
-import { HTTPConfig } from '../HTTPConfig';
-import { WebSocketConfig } from '../WebSocketConfig';
-import { GRPCConfig } from '../GRPCConfig';
-import { QueueConfig } from '../QueueConfig';
 import { testDataSourceConnection } from '../../../services/api/dataSources';
+import { ConflictDialog } from '../ConflictDialog';
+import { TagEditor } from '../TagEditor';
+import { ValidationError, ConflictError } from '../../../services/api/errors';
+import { formatError } from '../../../utils/formatters';
+import { useDataSourceMutations } from '../../../hooks/useDataSources';
+import {
+  getProtocol,
+  getProtocols,
+  getConnectionDetailsSchema,
+  getDefaultConnectionDetails,
+  isRegisteredProtocol,
+} from '../../../protocols';
 import styles from './ConfigurationForm.module.css';
 
 const validationSchema = yup.object({
@@ -29,16 +44,40 @@ const validationSchema = yup.object({
     .max(50, 'Name must be less than 50 characters'),
   protocol: yup.string()
     .required('Protocol is required')
-    .oneOf(['http', 'websocket', 'grpc', 'queue']),
-  connectionDetails: yup.object()
+    .test('registered-protocol', 'Unknown protocol', value => value == null || isRegisteredProtocol(value)),
+  // Each protocol has its own schema; errors surface as connectionDetails.<field>
+  connectionDetails: yup.object().when('protocol', (protocol: string, schema: yup.AnyObjectSchema) =>
+    getConnectionDetailsSchema(protocol) ?? schema
+  ),
+  tags: yup.array(
+    yup.string()
+      .required()
+      .max(32, 'Tags must be less than 32 characters')
+  ).max(20, 'A data source can have at most 20 tags')
+});
+
+// Keeps only the editable fields of a data source returned by the server
+const toConfig = (value: DataSourceConfig): DataSourceConfig => ({
+  name: value.name,
+  protocol: value.protocol,
+  connectionDetails: value.connectionDetails,
+  description: value.description,
+  tags: value.tags,
+  enabled: value.enabled,
+  version: value.version,
 });
 
 export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
   initialValues,
+  mode = initialValues ? 'edit' : 'create',
+  dataSourceId,
   onSubmit,
+  onSaved,
   onCancel,
   isLoading = false,
   disabled = false,
+  availableTags = [],
+  onSaveAsTemplate,
   showTestButton = true
 }) => {
   const [testing, setTesting] = useState(false);
@@ -46,25 +85,64 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
     success: boolean;
     message: string;
   } | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<{
+    localValues: DataSourceConfig;
+    serverValues: DataSourceConfig | null;
+  } | null>(null);
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const { createDataSourceAsync, updateDataSourceAsync } = useDataSourceMutations();
   
-  const { register, handleSubmit, watch, control, formState: { errors }, getValues } = useForm<DataSourceConfig>({
+  const {
+    register,
+    handleSubmit,
+    watch,
+    control,
+    formState: { errors },
+    getValues,
+    setError,
+    setValue,
+    clearErrors,
+    trigger,
+    reset
+  } = useForm<DataSourceConfig>({
     defaultValues: initialValues || {
       name: '',
       protocol: 'http',
-      connectionDetails: {}
+      connectionDetails: getDefaultConnectionDetails('http'),
+      tags: []
     },
     resolver: yupResolver(validationSchema)
   });
   
   const protocol = watch('protocol');
   
+  // Connection details belong to one protocol; start over from the new one's defaults
+  const changeProtocol = (next: DataSourceConfig['protocol']) => {
+    setValue('protocol', next, { shouldDirty: true });
+    setValue('connectionDetails', getDefaultConnectionDetails(next), { shouldDirty: true });
+    clearErrors('connectionDetails');
+    setTestResult(null);
+  };
+  
+  // Per-tag errors come back as an array, one entry per invalid tag
+  const firstTagError = Array.isArray(errors.tags)
+    ? errors.tags.find(Boolean)?.message
+    : undefined;
+  
   const testConnection = async () => {
-    setTesting(true);
     setTestResult(null);
     
+    // Only test a connection that could be saved; the invalid fields show their errors
+    const valid = await trigger(['protocol', 'connectionDetails']);
+    if (!valid) return;
+    
+    setTesting(true);
     try {
       const values = getValues();
-      const response = await testDataSourceConnection(values);
+      // Protocols that can be tested in the browser do so; the rest go through the server
+      const browserTest = getProtocol(values.protocol)?.testConnection?.(values);
+      const response = await (browserTest ?? testDataSourceConnection(values));
       setTestResult({
         success: response.success,
         message: response.message
@@ -72,31 +150,80 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
     } catch (error) {
       setTestResult({
         success: false,
-        message: 'Connection test failed: ' + (error as Error).message
+        message: 'Connection test failed: ' + formatError(error)
       });
     } finally {
       setTesting(false);
     }
   };
   
-  const renderProtocolConfig = () => {
-    switch (protocol) {
-      case 'http':
-        return <HTTPConfig control={control} errors={errors} disabled={disabled} />;
-      case 'websocket':
-        return <WebSocketConfig control={control} errors={errors} disabled={disabled} />;
-      case 'grpc':
-        return <GRPCConfig control={control} errors={errors} disabled={disabled} />;
-      case 'queue':
-        return <QueueConfig control={control} errors={errors} disabled={disabled} />;
-      default:
-        return null;
+  const submit = async (values: DataSourceConfig) => {
+    setSubmitError(null);
+    
+    try {
+      if (onSubmit) {
+        await onSubmit(values);
+      } else {
+        const saved = dataSourceId && mode === 'edit'
+          ? await updateDataSourceAsync({ id: dataSourceId, data: values })
+          : await createDataSourceAsync(values);
+        onSaved?.(saved);
+      }
+    } catch (error) {
+      // Someone saved a newer version since this form was loaded
+      if (error instanceof ConflictError) {
+        setConflict({
+          localValues: values,
+          serverValues: error.current ? toConfig(error.current as DataSourceConfig) : null,
+        });
+        return;
+      }
+      // Map server-side field errors onto the matching inputs
+      if (error instanceof ValidationError && error.fieldErrors.length > 0) {
+        error.fieldErrors.forEach(({ field, message }) => {
+          setError(field as FieldPath<DataSourceConfig>, { type: 'server', message });
+        });
+        return;
+      }
+      setSubmitError(formatError(error));
     }
   };
   
+  const keepMine = () => {
+    if (!conflict) return;
+    const { localValues, serverValues } = conflict;
+    setConflict(null);
+    // Resubmit against the server's version; without one the write is unconditional
+    submit({ ...localValues, version: serverValues?.version });
+  };
+  
+  const useTheirs = () => {
+    if (!conflict?.serverValues) return;
+    reset(conflict.serverValues);
+    setConflict(null);
+  };
+  
+  const saveAsTemplate = () => {
+    if (!onSaveAsTemplate || !templateName?.trim()) return;
+    onSaveAsTemplate(templateName.trim(), toConfig(getValues()));
+    setTemplateName(null);
+  };
+  
+  const renderProtocolConfig = () => {
+    const definition = getProtocol(protocol);
+    if (!definition) return null;
+    
+    const { ConfigComponent } = definition;
+    return (
+      <Suspense fallback={<CircularProgress size={24} />}>
+        <ConfigComponent control={control} errors={errors} disabled={disabled} />
+      </Suspense>
+    );
+  };
+  
   return (
     <Paper className={styles.container}>
-      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+      <form onSubmit={handleSubmit(submit)} className={styles.form}>
         <Box className={styles.section}>
           <h3>Basic Information</h3>
           
@@ -116,15 +243,38 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
               name="protocol"
               control={control}
               render={({ field }) => (
-                <Select {...field} disabled={disabled}>
-                  <MenuItem value="http">HTTP/REST</MenuItem>
-                  <MenuItem value="websocket">WebSocket</MenuItem>
-                  <MenuItem value="grpc">gRPC</MenuItem>
-                  <MenuItem value="queue">Message Queue</MenuItem>
+                <Select
+                  {...field}
+                  onChange={event => changeProtocol(event.target.value as DataSourceConfig['protocol'])}
+                  renderValue={value => getProtocol(value)?.label ?? value}
+                  disabled={disabled}
+                >
+                  {getProtocols().map(({ id, label, icon: Icon }) => (
+                    <MenuItem key={id} value={id}>
+                      <ListItemIcon>
+                        <Icon fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText primary={label} />
+                    </MenuItem>
+                  ))}
                 </Select>
               )}
             />
           </FormControl>
+          
+          <Controller
+            name="tags"
+            control={control}
+            render={({ field }) => (
+              <TagEditor
+                value={field.value ?? []}
+                onChange={field.onChange}
+                suggestions={availableTags}
+                error={errors.tags?.message ?? firstTagError}
+                disabled={disabled}
+              />
+            )}
+          />
         </Box>
         
         <Box className={styles.section}>
@@ -141,6 +291,12 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
           </Alert>
         )}
         
+        {submitError && (
+          <Alert severity="error" className={styles.alert}>
+            {submitError}
+          </Alert>
+        )}
+        
         <Box className={styles.actions}>
           {showTestButton && (
             <Button 
@@ -165,16 +321,58 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
                 Cancel
               </Button>
             )}
+            {onSaveAsTemplate && (
+              <Button onClick={() => setTemplateName('')} variant="secondary" disabled={disabled}>
+                Save as Template
+              </Button>
+            )}
             <Button 
               type="submit" 
               loading={isLoading}
               disabled={disabled}
             >
-              {initialValues ? 'Update' : 'Create'} Data Source
+              {mode === 'edit' ? 'Update' : 'Create'} Data Source
             </Button>
           </Box>
         </Box>
       </form>
+      
+      {conflict && (
+        <ConflictDialog
+          open
+          localValues={conflict.localValues}
+          serverValues={conflict.serverValues}
+          onKeepMine={keepMine}
+          onUseTheirs={useTheirs}
+          onClose={() => setConflict(null)}
+        />
+      )}
+      
+      <Dialog open={templateName !== null} onClose={() => setTemplateName(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save as template</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Use <code>{'{{variable}}'}</code> in any field, e.g. <code>{'{{env}}'}</code>, to be
+            asked for its value when creating a data source from the template.
+          </DialogContentText>
+          <TextField
+            label="Template name"
+            value={templateName ?? ''}
+            onChange={event => setTemplateName(event.target.value)}
+            autoFocus
+            fullWidth
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button variant="ghost" onClick={() => setTemplateName(null)}>
+            Cancel
+          </Button>
+          <Button onClick={saveAsTemplate} disabled={!templateName?.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Paper>
   );
 };
@@ -1,10 +1,20 @@
+import type { DataSourceProtocol } from '../../../protocols/types';
+import type { DataSource } from '../../../services/api/dataSources';
+
 export interface DataSourceConfig {
   name: string;
-  protocol: 'http' | 'websocket' | 'grpc' | 'queue';
+  /**
+   * Id of a registered protocol, see `src/protocols`
+   */
+  protocol: DataSourceProtocol;
   connectionDetails: Record<string, any>;
   description?: string;
   tags?: string[];
   enabled?: boolean;
+  /**
+   * Server revision this config was read at; sent as If-Match when saving
+   */
+  version?: number;
 }
 
 export interface ConfigurationFormProps {
@@ -14,9 +24,28 @@ export interface ConfigurationFormProps {
   initialValues?: DataSourceConfig;
   
   /**
-   * Form submission handler
+   * Whether the form creates a new data source or edits an existing one.
+   * Set to 'create' when prefilling a new data source, e.g. from a template.
+   * @default 'edit' when initialValues are given, otherwise 'create'
+   */
+  mode?: 'create' | 'edit';
+  
+  /**
+   * Id of the data source being edited. Without onSubmit the form updates it in
+   * edit mode and creates a new data source otherwise.
+   */
+  dataSourceId?: string;
+  
+  /**
+   * Form submission handler; replaces the built-in create/update
    */
-  onSubmit: (values: DataSourceConfig) => void | Promise<void>;
+  onSubmit?: (values: DataSourceConfig) => void | Promise<void>;
+  
+  /**
+   * Called after the built-in create/update succeeded, with null when the
+   * change was queued offline
+   */
+  onSaved?: (dataSource: DataSource | null) => void;
   
   /**
    * Cancel/close handler
@@ -33,6 +62,17 @@ export interface ConfigurationFormProps {
    */
   disabled?: boolean;
   
+  /**
+   * Existing tags suggested by the tag editor
+   */
+  availableTags?: string[];
+  
+  /**
+   * Saves the current values as a named template. The values are not validated,
+   * so they may contain `{{variable}}` placeholders. Hidden when omitted.
+   */
+  onSaveAsTemplate?: (name: string, values: DataSourceConfig) => void;
+  
   /**
    * Show connection test button
    * @default true
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { Button } from '../../common/Button';
+import { diffObjects } from '../../../utils/diff';
+import { ConflictDialogProps } from './types';
+
+// Server bookkeeping that always differs and means nothing to the user
+const IGNORED_FIELDS = ['id', 'version', 'createdAt', 'updatedAt', 'lastConnectedAt', 'status'];
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  open,
+  localValues,
+  serverValues,
+  onKeepMine,
+  onUseTheirs,
+  onClose,
+}) => {
+  const changes = useMemo(
+    () => serverValues
+      ? diffObjects(
+          serverValues as unknown as Record<string, unknown>,
+          localValues as unknown as Record<string, unknown>,
+          { ignore: IGNORED_FIELDS }
+        )
+      : [],
+    [localValues, serverValues]
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>This data source was changed by someone else</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          Your changes were not saved because a newer version exists on the server.
+          Choose which version to keep.
+        </DialogContentText>
+
+        {serverValues && changes.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Field</TableCell>
+                <TableCell>Server version</TableCell>
+                <TableCell>Your changes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {changes.map(change => (
+                <TableRow key={change.path}>
+                  <TableCell>{change.path}</TableCell>
+                  <TableCell>{formatValue(change.before)}</TableCell>
+                  <TableCell>{formatValue(change.after)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {serverValues && changes.length === 0 && (
+          <DialogContentText>
+            The server version already matches your changes.
+          </DialogContentText>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="secondary" onClick={onUseTheirs} disabled={!serverValues}>
+          Use server version
+        </Button>
+        <Button onClick={onKeepMine}>
+          Keep my changes
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+ConflictDialog.displayName = 'ConflictDialog';
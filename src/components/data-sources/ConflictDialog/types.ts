@@ -0,0 +1,33 @@
+import { DataSourceConfig } from '../ConfigurationForm/types';
+
+export interface ConflictDialogProps {
+  /**
+   * Whether the dialog is visible
+   */
+  open: boolean;
+
+  /**
+   * Values the user tried to save
+   */
+  localValues: DataSourceConfig;
+
+  /**
+   * Latest version stored on the server, if the conflict response included it
+   */
+  serverValues: DataSourceConfig | null;
+
+  /**
+   * Overwrite the server version with the local values
+   */
+  onKeepMine: () => void;
+
+  /**
+   * Discard local edits and load the server version into the form
+   */
+  onUseTheirs: () => void;
+
+  /**
+   * Close the dialog without choosing
+   */
+  onClose: () => void;
+}
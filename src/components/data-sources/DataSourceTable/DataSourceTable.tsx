@@ -0,0 +1,194 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Checkbox,
+  Chip,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  NetworkCheck as TestIcon,
+  ContentCopy as DuplicateIcon,
+} from '@mui/icons-material';
+import { useVirtualWindow } from '../../../hooks/useVirtualWindow';
+import { DataSource } from '../../../services/api/dataSources';
+import { PendingChange } from '../../../store/slices/outboxSlice';
+import {
+  formatProtocol,
+  formatStatus,
+  formatRelativeTime,
+  formatPendingChange,
+} from '../../../utils/formatters';
+import { DataSourceTableProps } from './types';
+
+const ROW_HEIGHT = 44;
+
+interface RowProps {
+  dataSource: DataSource;
+  pendingChange?: PendingChange;
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+  onTest: (id: string) => void;
+  onDuplicate?: (id: string) => void;
+}
+
+// Memoized so a live status update re-renders only the affected row
+const DataSourceRow = React.memo<RowProps>(({
+  dataSource,
+  pendingChange,
+  selected,
+  onToggleSelect,
+  onEdit,
+  onDelete,
+  onTest,
+  onDuplicate,
+}) => {
+  const status = formatStatus(dataSource.status ?? 'inactive');
+
+  return (
+    <TableRow hover selected={selected} style={{ height: ROW_HEIGHT }}>
+      {onToggleSelect && (
+        <TableCell padding="checkbox">
+          <Checkbox
+            size="small"
+            checked={Boolean(selected)}
+            onChange={() => onToggleSelect(dataSource.id)}
+            inputProps={{ 'aria-label': `Select ${dataSource.name}` }}
+          />
+        </TableCell>
+      )}
+      <TableCell>
+        {dataSource.name}
+        {pendingChange && (
+          <Chip size="small" sx={{ ml: 1 }} {...formatPendingChange(pendingChange)} />
+        )}
+      </TableCell>
+      <TableCell>{formatProtocol(dataSource.protocol, dataSource.connectionDetails)}</TableCell>
+      <TableCell>
+        <Chip size="small" label={status.label} color={status.color} />
+      </TableCell>
+      <TableCell>{dataSource.enabled ? 'Yes' : 'No'}</TableCell>
+      <TableCell>{dataSource.tags?.join(', ') || '—'}</TableCell>
+      <TableCell>{formatRelativeTime(dataSource.updatedAt)}</TableCell>
+      <TableCell align="right">
+        <Tooltip title="Test connection">
+          <IconButton size="small" onClick={() => onTest(dataSource.id)}>
+            <TestIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Edit">
+          <IconButton size="small" onClick={() => onEdit(dataSource.id)}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        {onDuplicate && (
+          <Tooltip title="Duplicate">
+            <IconButton size="small" onClick={() => onDuplicate(dataSource.id)}>
+              <DuplicateIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        <Tooltip title="Delete">
+          <IconButton size="small" onClick={() => onDelete(dataSource.id)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </TableCell>
+    </TableRow>
+  );
+});
+
+DataSourceRow.displayName = 'DataSourceRow';
+
+/**
+ * Dense, virtualized table of data sources for large inventories
+ */
+export const DataSourceTable: React.FC<DataSourceTableProps> = ({
+  dataSources,
+  pendingChanges = {},
+  selectedIds,
+  onToggleSelect,
+  onToggleAll,
+  onEdit,
+  onDelete,
+  onTest,
+  onDuplicate,
+  onEndReached,
+  height = 600,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { startRow, endRow } = useVirtualWindow(containerRef, {
+    rowCount: dataSources.length,
+    rowHeight: ROW_HEIGHT,
+    overscan: 10,
+    scrollContainer: true,
+  });
+
+  useEffect(() => {
+    if (onEndReached && dataSources.length > 0 && endRow >= dataSources.length) {
+      onEndReached();
+    }
+  }, [endRow, dataSources.length, onEndReached]);
+
+  const visibleRows = dataSources.slice(startRow, endRow);
+  const paddingTop = startRow * ROW_HEIGHT;
+  const paddingBottom = (dataSources.length - endRow) * ROW_HEIGHT;
+
+  return (
+    <TableContainer ref={containerRef} style={{ maxHeight: height }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            {onToggleSelect && (
+              <TableCell padding="checkbox">
+                <Checkbox
+                  size="small"
+                  checked={dataSources.length > 0 && selectedIds?.size === dataSources.length}
+                  indeterminate={Boolean(selectedIds?.size) && (selectedIds?.size ?? 0) < dataSources.length}
+                  onChange={(e) => onToggleAll?.(e.target.checked)}
+                  inputProps={{ 'aria-label': 'Select all' }}
+                />
+              </TableCell>
+            )}
+            <TableCell>Name</TableCell>
+            <TableCell>Protocol</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Enabled</TableCell>
+            <TableCell>Tags</TableCell>
+            <TableCell>Updated</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {/* Spacer rows keep the scrollbar sized for the full list */}
+          {paddingTop > 0 && <TableRow style={{ height: paddingTop }} />}
+          {visibleRows.map(source => (
+            <DataSourceRow
+              key={source.id}
+              dataSource={source}
+              pendingChange={pendingChanges[source.id]}
+              selected={selectedIds?.has(source.id)}
+              onToggleSelect={onToggleSelect}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onTest={onTest}
+              onDuplicate={onDuplicate}
+            />
+          ))}
+          {paddingBottom > 0 && <TableRow style={{ height: paddingBottom }} />}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+DataSourceTable.displayName = 'DataSourceTable';
@@ -0,0 +1,2 @@
+export { DataSourceTable } from './DataSourceTable';
+export type { DataSourceTableProps } from './types';
@@ -0,0 +1,46 @@
+import { DataSource } from '../../../services/api/dataSources';
+import { PendingChange } from '../../../store/slices/outboxSlice';
+
+export interface DataSourceTableProps {
+  /**
+   * Data sources to list, one row each
+   */
+  dataSources: DataSource[];
+
+  /**
+   * Queued offline changes by data source id, shown next to the name
+   */
+  pendingChanges?: Record<string, PendingChange>;
+
+  /**
+   * Ids of selected rows; selection checkboxes are shown when set
+   */
+  selectedIds?: Set<string>;
+
+  onToggleSelect?: (id: string) => void;
+
+  /**
+   * Select or clear every row
+   */
+  onToggleAll?: (selected: boolean) => void;
+
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+  onTest: (id: string) => void;
+
+  /**
+   * Start a new data source from a copy of this one; hidden when omitted
+   */
+  onDuplicate?: (id: string) => void;
+
+  /**
+   * Called when the last rows scroll into view, e.g. to load the next page
+   */
+  onEndReached?: () => void;
+
+  /**
+   * Height of the scrollable table body in pixels
+   * @default 600
+   */
+  height?: number;
+}
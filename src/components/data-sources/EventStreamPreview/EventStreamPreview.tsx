@@ -0,0 +1,107 @@
+import React, { useCallback, useState } from 'react';
+import { Alert, Box, Chip, List, ListItem, ListItemText, Paper, Typography } from '@mui/material';
+import { Button } from '../../common/Button';
+import { useServerSentEvents } from '../../../hooks/useServerSentEvents';
+import { ServerSentEvent } from '../../../services/realtime/eventStream';
+import { EventStreamPreviewProps } from './types';
+import styles from './EventStreamPreview.module.css';
+
+interface PreviewEvent extends ServerSentEvent {
+  key: number;
+  receivedAt: Date;
+}
+
+/**
+ * Streams events from the configured URL in the browser, so a config can be checked
+ * before it is saved. Nothing is written to the realtime store.
+ */
+export const EventStreamPreview: React.FC<EventStreamPreviewProps> = ({
+  connectionDetails,
+  maxEvents = 20,
+  disabled = false,
+}) => {
+  const [running, setRunning] = useState(false);
+  const [events, setEvents] = useState<PreviewEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMessage = useCallback((event: ServerSentEvent) => {
+    setEvents(current => [
+      { ...event, key: (current[0]?.key ?? 0) + 1, receivedAt: new Date() },
+      ...current,
+    ].slice(0, maxEvents));
+  }, [maxEvents]);
+
+  const { isConnected, reconnectAttempts, lastEventId } = useServerSentEvents({
+    url: connectionDetails.url ?? '',
+    headers: connectionDetails.headers ?? undefined,
+    eventTypes: connectionDetails.eventTypes ?? undefined,
+    lastEventId: connectionDetails.lastEventId || undefined,
+    resumeFromLastEventId: connectionDetails.resumeFromLastEventId,
+    retryInterval: connectionDetails.retryInterval,
+    maxRetries: connectionDetails.maxRetries,
+    enabled: running,
+    onMessage: handleMessage,
+    onError: streamError => setError(streamError.message),
+  });
+
+  const start = () => {
+    setEvents([]);
+    setError(null);
+    setRunning(true);
+  };
+
+  const status = !running ? 'Stopped' :
+    isConnected ? 'Connected' :
+    reconnectAttempts > 0 ? `Reconnecting (attempt ${reconnectAttempts})` :
+    'Connecting';
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+      <Box className={styles.header}>
+        <Typography variant="subtitle2">Live preview</Typography>
+        <Chip size="small" label={status} color={isConnected ? 'success' : 'default'} />
+        {lastEventId && (
+          <Typography variant="caption" color="text.secondary">
+            Last event ID: {lastEventId}
+          </Typography>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        {running ? (
+          <Button size="small" variant="secondary" onClick={() => setRunning(false)}>
+            Stop
+          </Button>
+        ) : (
+          <Button size="small" variant="secondary" onClick={start} disabled={disabled || !connectionDetails.url}>
+            Start preview
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {running && events.length === 0 && !error && (
+        <Typography variant="body2" color="text.secondary">
+          Waiting for events...
+        </Typography>
+      )}
+
+      <List dense className={styles.events}>
+        {events.map(event => (
+          <ListItem key={event.key} divider alignItems="flex-start">
+            <ListItemText
+              primary={`${event.type}${event.lastEventId ? ` #${event.lastEventId}` : ''} · ${event.receivedAt.toLocaleTimeString()}`}
+              secondary={<pre className={styles.data}>{event.data}</pre>}
+              secondaryTypographyProps={{ component: 'div' }}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+EventStreamPreview.displayName = 'EventStreamPreview';
@@ -0,0 +1,2 @@
+export { EventStreamPreview } from './EventStreamPreview';
+export type { EventStreamPreviewProps } from './types';
@@ -0,0 +1,22 @@
+export interface EventStreamPreviewProps {
+  /**
+   * Connection details of the SSE config being edited
+   */
+  connectionDetails: {
+    url?: string;
+    headers?: Record<string, string> | null;
+    eventTypes?: string[] | null;
+    lastEventId?: string | null;
+    resumeFromLastEventId?: boolean;
+    retryInterval?: number;
+    maxRetries?: number;
+  };
+
+  /**
+   * Number of most recent events to keep on screen
+   * @default 20
+   */
+  maxEvents?: number;
+
+  disabled?: boolean;
+}
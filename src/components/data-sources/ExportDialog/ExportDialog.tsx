@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Alert,
+  Stack,
+} from '@mui/material';
+import { Button } from '../../common/Button';
+import { formatError } from '../../../utils/formatters';
+import { ExportFormat, SecretHandling } from '../../../utils/dataSourceExport';
+import { ExportDialogProps, ExportScope } from './types';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  defaultScope = 'all',
+  selectedCount,
+  viewCount,
+  hasViewFilters,
+  onExport,
+  onClose,
+}) => {
+  const [scope, setScope] = useState<ExportScope>(defaultScope);
+  const [format, setFormat] = useState<ExportFormat>('yaml');
+  const [secrets, setSecrets] = useState<SecretHandling>('redact');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setScope(defaultScope);
+      setError(null);
+    }
+  }, [open, defaultScope]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport({ scope, format, secrets });
+      onClose();
+    } catch (exportError) {
+      setError(`Could not export data sources: ${formatError(exportError)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export data sources</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          <FormControl>
+            <FormLabel>Data sources</FormLabel>
+            <RadioGroup value={scope} onChange={event => setScope(event.target.value as ExportScope)}>
+              <FormControlLabel value="all" control={<Radio />} label="All data sources" />
+              {hasViewFilters && (
+                <FormControlLabel value="view" control={<Radio />} label={`Current view (${viewCount})`} />
+              )}
+              {selectedCount > 0 && (
+                <FormControlLabel value="selected" control={<Radio />} label={`Selected (${selectedCount})`} />
+              )}
+            </RadioGroup>
+          </FormControl>
+
+          <FormControl>
+            <FormLabel>Format</FormLabel>
+            <RadioGroup row value={format} onChange={event => setFormat(event.target.value as ExportFormat)}>
+              <FormControlLabel value="yaml" control={<Radio />} label="YAML" />
+              <FormControlLabel value="json" control={<Radio />} label="JSON" />
+            </RadioGroup>
+          </FormControl>
+
+          <FormControl>
+            <FormLabel>Secrets</FormLabel>
+            <RadioGroup value={secrets} onChange={event => setSecrets(event.target.value as SecretHandling)}>
+              <FormControlLabel value="redact" control={<Radio />} label="Redact" />
+              <FormControlLabel
+                value="reference"
+                control={<Radio />}
+                label="Replace with ${secret:…} references"
+              />
+            </RadioGroup>
+          </FormControl>
+
+          {error && <Alert severity="error">{error}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button variant="ghost" onClick={onClose} disabled={exporting}>
+          Cancel
+        </Button>
+        <Button onClick={handleExport} loading={exporting}>
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+ExportDialog.displayName = 'ExportDialog';
@@ -0,0 +1,2 @@
+export { ExportDialog } from './ExportDialog';
+export type { ExportDialogProps, ExportOptions, ExportScope } from './types';
@@ -0,0 +1,47 @@
+import { ExportFormat, SecretHandling } from '../../../utils/dataSourceExport';
+
+/**
+ * Which data sources to export
+ */
+export type ExportScope = 'all' | 'view' | 'selected';
+
+export interface ExportOptions {
+  scope: ExportScope;
+  format: ExportFormat;
+  secrets: SecretHandling;
+}
+
+export interface ExportDialogProps {
+  /**
+   * Whether the dialog is visible
+   */
+  open: boolean;
+
+  /**
+   * Scope chosen when the dialog opens
+   * @default 'all'
+   */
+  defaultScope?: ExportScope;
+
+  /**
+   * Number of selected data sources; the "selected" scope is hidden when 0
+   */
+  selectedCount: number;
+
+  /**
+   * Number of data sources in the current view
+   */
+  viewCount: number;
+
+  /**
+   * Whether the current view is filtered; the "view" scope is hidden otherwise
+   */
+  hasViewFilters: boolean;
+
+  /**
+   * Fetches, sanitizes and downloads the export. Rejects with the reason it failed.
+   */
+  onExport: (options: ExportOptions) => Promise<void>;
+
+  onClose: () => void;
+}
@@ -0,0 +1,383 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Stepper,
+  Step,
+  StepLabel,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  MenuItem,
+  Chip,
+  Alert,
+  Typography,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  CheckCircle as SuccessIcon,
+  Error as FailedIcon,
+} from '@mui/icons-material';
+import { Button } from '../../common/Button';
+import { useDataSourceImport } from '../../../hooks/useDataSourceImport';
+import { ImportOutcome } from '../../../store/slices/dataSourcesSlice';
+import {
+  detectImportFormat,
+  parseImportFile,
+  buildImportRows,
+  suggestImportName,
+  getTakenNames,
+  getRenameError,
+  getImportPlan,
+  ImportRow,
+  ImportResolution,
+} from '../../../utils/dataSourceImport';
+import { formatError } from '../../../utils/formatters';
+import { readTextFile } from '../../../utils/readFile';
+import { ImportWizardProps } from './types';
+import styles from './ImportWizard.module.css';
+
+type WizardStep = 'upload' | 'review' | 'results';
+
+const STEPS: Array<{ key: WizardStep; label: string }> = [
+  { key: 'upload', label: 'Choose file' },
+  { key: 'review', label: 'Review' },
+  { key: 'results', label: 'Results' },
+];
+
+const RESOLUTION_LABELS: Record<Exclude<ImportResolution, 'create'>, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite existing',
+  rename: 'Import under a new name',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ open, onClose }) => {
+  const { existingDataSources, isLoading, importing, runImport } = useDataSourceImport();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [outcomes, setOutcomes] = useState<ImportOutcome[]>([]);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const plan = useMemo(() => getImportPlan(rows), [rows]);
+  const submitCount = plan.creates.length + plan.overwrites.length;
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const conflictCount = rows.filter(row => row.existing).length;
+
+  const renameErrors = useMemo(
+    () => new Map(
+      rows
+        .filter(row => row.resolution === 'rename')
+        .map(row => [
+          row.index,
+          getRenameError(row.renameTo ?? '', getTakenNames(rows, existingDataSources, row.index)),
+        ])
+    ),
+    [rows, existingDataSources]
+  );
+  const hasRenameErrors = Array.from(renameErrors.values()).some(Boolean);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName(null);
+    setParseError(null);
+    setRows([]);
+    setOutcomes([]);
+    setSubmitError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+
+    const format = detectImportFormat(file.name);
+    if (!format) {
+      setParseError('Unsupported file type. Use a .json, .yaml, .yml or .csv file.');
+      return;
+    }
+
+    try {
+      const records = parseImportFile(await readTextFile(file), format);
+      if (records.length === 0) {
+        setParseError('The file does not contain any data sources.');
+        return;
+      }
+      setRows(buildImportRows(records, existingDataSources));
+      setStep('review');
+    } catch (error) {
+      setParseError((error as Error).message);
+    }
+  };
+
+  const handleResolutionChange = (index: number, resolution: ImportResolution) => {
+    setRows(current => current.map(row => {
+      if (row.index !== index || !row.config) return row;
+      const renameTo = resolution === 'rename'
+        ? row.renameTo ?? suggestImportName(row.config.name, getTakenNames(current, existingDataSources, index))
+        : row.renameTo;
+      return { ...row, resolution, renameTo };
+    }));
+  };
+
+  const handleRenameChange = (index: number, renameTo: string) => {
+    setRows(current => current.map(row => (row.index === index ? { ...row, renameTo } : row)));
+  };
+
+  const handleImport = async () => {
+    setSubmitError(null);
+    try {
+      setOutcomes(await runImport(plan));
+      setStep('results');
+    } catch (error) {
+      setSubmitError(`Import failed: ${formatError(error)}`);
+    }
+  };
+
+  const getRowName = (index: number): string => {
+    const row = rows.find(item => item.index === index);
+    const name = row?.resolution === 'rename' ? row.renameTo : row?.config?.name;
+    return name ?? `Row ${index + 1}`;
+  };
+
+  const renderStatus = (row: ImportRow) => {
+    if (row.errors.length > 0) {
+      return (
+        <>
+          <Chip size="small" color="error" label="Invalid" />
+          <ul className={styles.changes}>
+            {row.errors.map(error => (
+              <Typography key={`${error.path}-${error.message}`} component="li" variant="caption" color="error">
+                {error.path ? `${error.path}: ` : ''}{error.message}
+              </Typography>
+            ))}
+          </ul>
+        </>
+      );
+    }
+
+    if (!row.existing) {
+      return <Chip size="small" color="success" label="New" />;
+    }
+
+    return (
+      <>
+        <Chip
+          size="small"
+          color="warning"
+          label={row.changes.length > 0 ? `Exists, ${row.changes.length} changes` : 'Exists, unchanged'}
+        />
+        <ul className={styles.changes}>
+          {row.changes.map(change => (
+            <Typography key={change.path} component="li" variant="caption" color="text.secondary">
+              {change.path}: {formatValue(change.before)} → {formatValue(change.after)}
+            </Typography>
+          ))}
+        </ul>
+      </>
+    );
+  };
+
+  const renderResolution = (row: ImportRow) => {
+    if (!row.existing || row.errors.length > 0) return null;
+
+    const renameError = renameErrors.get(row.index);
+    return (
+      <div className={styles.resolution}>
+        <TextField
+          select
+          size="small"
+          label="Action"
+          value={row.resolution}
+          onChange={event => handleResolutionChange(row.index, event.target.value as ImportResolution)}
+        >
+          {Object.entries(RESOLUTION_LABELS).map(([value, label]) => (
+            <MenuItem key={value} value={value}>
+              {label}
+            </MenuItem>
+          ))}
+        </TextField>
+        {row.resolution === 'rename' && (
+          <TextField
+            size="small"
+            label="New name"
+            value={row.renameTo ?? ''}
+            onChange={event => handleRenameChange(row.index, event.target.value)}
+            error={Boolean(renameError)}
+            helperText={renameError}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderUpload = () => (
+    <>
+      <DialogContentText>
+        Import data sources from a JSON, YAML or CSV file. JSON and YAML files hold a list of
+        data sources; CSV files have a header row with <code>name</code>, <code>protocol</code>,{' '}
+        <code>description</code>, <code>enabled</code>, <code>tags</code> (separated by{' '}
+        <code>;</code>) and one <code>connectionDetails.&lt;field&gt;</code> column per setting.
+      </DialogContentText>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.yaml,.yml,.csv"
+        className={styles.fileInput}
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="secondary"
+        onClick={() => fileInputRef.current?.click()}
+        loading={isLoading}
+      >
+        <UploadIcon fontSize="small" /> {fileName ?? 'Choose file'}
+      </Button>
+      {parseError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {parseError}
+        </Alert>
+      )}
+    </>
+  );
+
+  const renderReview = () => (
+    <>
+      <div className={styles.summary}>
+        <Chip label={`${rows.length} rows`} />
+        <Chip color="success" label={`${submitCount} to import`} />
+        {conflictCount > 0 && <Chip color="warning" label={`${conflictCount} already exist`} />}
+        {invalidCount > 0 && <Chip color="error" label={`${invalidCount} invalid`} />}
+      </div>
+
+      {invalidCount > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Invalid rows are left out of the import. Fix them in the file and choose it again to include them.
+        </Alert>
+      )}
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Row</TableCell>
+            <TableCell>Name</TableCell>
+            <TableCell>Protocol</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Action</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.index}>
+              <TableCell>{row.index + 1}</TableCell>
+              <TableCell>{row.config?.name ?? '—'}</TableCell>
+              <TableCell>{row.config?.protocol.toUpperCase() ?? '—'}</TableCell>
+              <TableCell>{renderStatus(row)}</TableCell>
+              <TableCell>{renderResolution(row)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {submitError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {submitError}
+        </Alert>
+      )}
+    </>
+  );
+
+  const renderResults = () => {
+    const failures = outcomes.filter(outcome => !outcome.success);
+    return (
+      <>
+        <Alert severity={failures.length > 0 ? 'warning' : 'success'}>
+          Imported {outcomes.length - failures.length} of {outcomes.length} data sources
+          {failures.length > 0 && `; ${failures.length} failed`}.
+        </Alert>
+        <List dense>
+          {outcomes.map(outcome => (
+            <ListItem key={outcome.index}>
+              <ListItemIcon>
+                {outcome.success
+                  ? <SuccessIcon color="success" fontSize="small" />
+                  : <FailedIcon color="error" fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText
+                primary={`Row ${outcome.index + 1}: ${getRowName(outcome.index)}`}
+                secondary={outcome.error}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={importing ? undefined : handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Import data sources</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={STEPS.findIndex(item => item.key === step)} sx={{ mb: 3 }}>
+          {STEPS.map(item => (
+            <Step key={item.key}>
+              <StepLabel>{item.label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 'upload' && renderUpload()}
+        {step === 'review' && renderReview()}
+        {step === 'results' && renderResults()}
+      </DialogContent>
+      <DialogActions>
+        {step === 'review' && (
+          <>
+            <Button variant="ghost" onClick={reset} disabled={importing}>
+              Back
+            </Button>
+            <Button
+              onClick={handleImport}
+              loading={importing}
+              disabled={submitCount === 0 || hasRenameErrors}
+            >
+              Import {submitCount} data sources
+            </Button>
+          </>
+        )}
+        <Button variant={step === 'results' ? 'primary' : 'ghost'} onClick={handleClose} disabled={importing}>
+          {step === 'results' ? 'Done' : 'Cancel'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+ImportWizard.displayName = 'ImportWizard';
@@ -0,0 +1,2 @@
+export { ImportWizard } from './ImportWizard';
+export type { ImportWizardProps } from './types';
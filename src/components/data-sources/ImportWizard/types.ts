@@ -0,0 +1,11 @@
+export interface ImportWizardProps {
+  /**
+   * Whether the wizard is visible
+   */
+  open: boolean;
+
+  /**
+   * Close the wizard, after an import or without one
+   */
+  onClose: () => void;
+}
@@ -0,0 +1,236 @@
+import React from 'react';
+import { Controller, useWatch } from 'react-hook-form';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { getFieldError, isValidMqttTopicFilter } from '../../../utils/validation';
+import { MQTTConfigProps } from './types';
+
+const QOS_OPTIONS = [
+  { value: 0, label: '0 - At most once' },
+  { value: 1, label: '1 - At least once' },
+  { value: 2, label: '2 - Exactly once' },
+];
+
+const DEFAULT_LAST_WILL = { topic: '', payload: '', qos: 0, retain: false };
+
+export const MQTTConfig: React.FC<MQTTConfigProps> = ({ control, errors, disabled = false }) => {
+  const authType = useWatch({ control, name: 'connectionDetails.authType' }) ?? 'none';
+  const lastWill = useWatch({ control, name: 'connectionDetails.lastWill' });
+
+  const error = (field: string) => getFieldError(errors, `connectionDetails.${field}`);
+  // Errors for single topics come back as an array, like tag errors
+  const topicErrors = errors.connectionDetails?.topics;
+  const topicsError = Array.isArray(topicErrors)
+    ? topicErrors.find(Boolean)?.message
+    : error('topics');
+
+  const textField = (
+    field: string,
+    label: string,
+    { helperText, ...props }: { helperText?: string } & Record<string, unknown> = {}
+  ) => (
+    <Controller
+      name={`connectionDetails.${field}`}
+      control={control}
+      render={({ field: input }) => (
+        <TextField
+          {...input}
+          value={input.value ?? ''}
+          label={label}
+          error={Boolean(error(field))}
+          helperText={error(field) ?? helperText}
+          disabled={disabled}
+          fullWidth
+          margin="normal"
+          {...props}
+        />
+      )}
+    />
+  );
+
+  const qosSelect = (field: string, label: string) => (
+    <Controller
+      name={`connectionDetails.${field}`}
+      control={control}
+      render={({ field: input }) => (
+        <FormControl fullWidth margin="normal" error={Boolean(error(field))}>
+          <InputLabel>{label}</InputLabel>
+          <Select {...input} value={input.value ?? 0} label={label} disabled={disabled}>
+            {QOS_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+          {error(field) && <FormHelperText>{error(field)}</FormHelperText>}
+        </FormControl>
+      )}
+    />
+  );
+
+  return (
+    <Box>
+      {textField('brokerUrl', 'Broker URL', { placeholder: 'mqtts://broker.example.com:8883' })}
+      {textField('websocketUrl', 'WebSocket URL (for testing)', {
+        placeholder: 'ws://localhost:9001',
+        helperText: 'MQTT over WebSocket endpoint for browser connection tests; '
+          + 'not needed when the broker URL is ws:// or wss://',
+      })}
+
+      <Controller
+        name="connectionDetails.topics"
+        control={control}
+        render={({ field }) => (
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={field.value ?? []}
+            disabled={disabled}
+            onChange={(_, topics) =>
+              field.onChange(Array.from(new Set(topics.map(topic => topic.trim()).filter(Boolean))))
+            }
+            renderTags={(topics, getTagProps) =>
+              topics.map((topic, index) => (
+                <Chip
+                  size="small"
+                  label={topic}
+                  color={isValidMqttTopicFilter(topic) ? 'default' : 'error'}
+                  {...getTagProps({ index })}
+                />
+              ))
+            }
+            renderInput={params => (
+              <TextField
+                {...params}
+                label="Topic Filters"
+                placeholder="sensors/+/temperature"
+                error={Boolean(topicsError)}
+                helperText={topicsError ?? '+ matches one level, # matches all remaining levels'}
+                margin="normal"
+              />
+            )}
+          />
+        )}
+      />
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        {qosSelect('qos', 'QoS')}
+        {textField('keepAlive', 'Keep Alive (seconds)', { type: 'number' })}
+      </Box>
+
+      {textField('clientId', 'Client ID', { helperText: 'Leave empty to let the broker assign one' })}
+      <Controller
+        name="connectionDetails.cleanSession"
+        control={control}
+        render={({ field }) => (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={field.value ?? true}
+                onChange={event => field.onChange(event.target.checked)}
+                disabled={disabled}
+              />
+            }
+            label="Clean session"
+          />
+        )}
+      />
+      <FormHelperText>
+        Turn off to keep subscriptions and queued messages while disconnected.
+      </FormHelperText>
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>Authentication</Typography>
+      <Controller
+        name="connectionDetails.authType"
+        control={control}
+        render={({ field }) => (
+          <FormControl fullWidth margin="normal">
+            <InputLabel>Method</InputLabel>
+            <Select {...field} value={field.value ?? 'none'} label="Method" disabled={disabled}>
+              <MenuItem value="none">None</MenuItem>
+              <MenuItem value="password">Username and password</MenuItem>
+              <MenuItem value="certificate">TLS client certificate</MenuItem>
+            </Select>
+          </FormControl>
+        )}
+      />
+      {authType === 'password' && (
+        <>
+          {textField('username', 'Username')}
+          {textField('password', 'Password', { type: 'password' })}
+        </>
+      )}
+      {authType === 'certificate' && (
+        <>
+          {textField('clientCertificateRef', 'Client Certificate', {
+            helperText: 'Reference to a certificate in the secret store',
+          })}
+          {textField('clientKeyRef', 'Client Key', {
+            helperText: 'Reference to a private key in the secret store',
+          })}
+          {textField('caCertificateRef', 'CA Certificate', {
+            helperText: 'Optional; the system CAs are used when empty',
+          })}
+        </>
+      )}
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>Last Will</Typography>
+      <Controller
+        name="connectionDetails.lastWill"
+        control={control}
+        render={({ field }) => (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={Boolean(field.value)}
+                onChange={event => field.onChange(event.target.checked ? { ...DEFAULT_LAST_WILL } : null)}
+                disabled={disabled}
+              />
+            }
+            label="Publish a message when the connection drops"
+          />
+        )}
+      />
+      {lastWill && (
+        <>
+          {textField('lastWill.topic', 'Topic', { placeholder: 'clients/status' })}
+          {textField('lastWill.payload', 'Payload', { multiline: true, minRows: 2 })}
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            {qosSelect('lastWill.qos', 'QoS')}
+            <Controller
+              name="connectionDetails.lastWill.retain"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={field.value ?? false}
+                      onChange={event => field.onChange(event.target.checked)}
+                      disabled={disabled}
+                    />
+                  }
+                  label="Retain"
+                />
+              )}
+            />
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+MQTTConfig.displayName = 'MQTTConfig';
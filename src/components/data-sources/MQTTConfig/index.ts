@@ -0,0 +1,2 @@
+export { MQTTConfig } from './MQTTConfig';
+export type { MQTTConfigProps } from './types';
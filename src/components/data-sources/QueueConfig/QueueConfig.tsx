@@ -0,0 +1,260 @@
+import React from 'react';
+import { Controller, useWatch } from 'react-hook-form';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { getFieldError, QUEUE_BROKER_TYPES, QueueBrokerType } from '../../../utils/validation';
+import { QUEUE_BROKER_DEFAULTS, QUEUE_BROKER_LABELS } from '../../../protocols/queue';
+import { QueueConfigProps } from './types';
+
+const OFFSET_RESET_OPTIONS = [
+  { value: 'latest', label: 'Latest - only new messages' },
+  { value: 'earliest', label: 'Earliest - from the oldest retained message' },
+  { value: 'none', label: 'None - fail without a committed offset' },
+];
+
+const SASL_MECHANISMS = [
+  { value: 'plain', label: 'PLAIN' },
+  { value: 'scram-sha-256', label: 'SCRAM-SHA-256' },
+  { value: 'scram-sha-512', label: 'SCRAM-SHA-512' },
+];
+
+const EXCHANGE_TYPES = ['direct', 'topic', 'fanout', 'headers'];
+
+const DEFAULT_SASL = { mechanism: 'scram-sha-512', username: '', password: '' };
+
+export const QueueConfig: React.FC<QueueConfigProps> = ({ control, errors, disabled = false }) => {
+  const brokerType: QueueBrokerType = useWatch({ control, name: 'connectionDetails.brokerType' }) ?? 'generic';
+  const sasl = useWatch({ control, name: 'connectionDetails.sasl' });
+
+  const error = (field: string) => getFieldError(errors, `connectionDetails.${field}`);
+  // Errors for single list entries come back as an array, like tag errors
+  const listError = (field: 'bootstrapServers' | 'topics') => {
+    const fieldErrors = errors.connectionDetails?.[field];
+    return Array.isArray(fieldErrors) ? fieldErrors.find(Boolean)?.message : error(field);
+  };
+
+  const textField = (
+    field: string,
+    label: string,
+    { helperText, ...props }: { helperText?: string } & Record<string, unknown> = {}
+  ) => (
+    <Controller
+      name={`connectionDetails.${field}`}
+      control={control}
+      render={({ field: input }) => (
+        <TextField
+          {...input}
+          value={input.value ?? ''}
+          label={label}
+          error={Boolean(error(field))}
+          helperText={error(field) ?? helperText}
+          disabled={disabled}
+          fullWidth
+          margin="normal"
+          {...props}
+        />
+      )}
+    />
+  );
+
+  const select = (field: string, label: string, options: { value: string; label: string }[]) => (
+    <Controller
+      name={`connectionDetails.${field}`}
+      control={control}
+      render={({ field: input }) => (
+        <FormControl fullWidth margin="normal" error={Boolean(error(field))}>
+          <InputLabel>{label}</InputLabel>
+          <Select {...input} value={input.value ?? ''} label={label} disabled={disabled}>
+            {options.map(option => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+          {error(field) && <FormHelperText>{error(field)}</FormHelperText>}
+        </FormControl>
+      )}
+    />
+  );
+
+  const listField = (
+    field: 'bootstrapServers' | 'topics',
+    label: string,
+    placeholder: string,
+    helperText: string
+  ) => (
+    <Controller
+      name={`connectionDetails.${field}`}
+      control={control}
+      render={({ field: input }) => (
+        <Autocomplete
+          multiple
+          freeSolo
+          options={[]}
+          value={input.value ?? []}
+          disabled={disabled}
+          onChange={(_, values) =>
+            input.onChange(Array.from(new Set(values.map(value => value.trim()).filter(Boolean))))
+          }
+          renderTags={(values, getTagProps) =>
+            values.map((value, index) => (
+              <Chip size="small" label={value} {...getTagProps({ index })} />
+            ))
+          }
+          renderInput={params => (
+            <TextField
+              {...params}
+              label={label}
+              placeholder={placeholder}
+              error={Boolean(listError(field))}
+              helperText={listError(field) ?? helperText}
+              margin="normal"
+            />
+          )}
+        />
+      )}
+    />
+  );
+
+  const renderKafka = () => (
+    <>
+      {listField('bootstrapServers', 'Bootstrap Servers', 'kafka-1.example.com:9092', 'host:port of one or more brokers')}
+      {listField('topics', 'Topics', 'orders', 'Press Enter after each topic')}
+      {textField('consumerGroup', 'Consumer Group')}
+      {select('offsetReset', 'Offset Reset', OFFSET_RESET_OPTIONS)}
+      <Controller
+        name="connectionDetails.ssl"
+        control={control}
+        render={({ field }) => (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={field.value ?? false}
+                onChange={event => field.onChange(event.target.checked)}
+                disabled={disabled}
+              />
+            }
+            label="Use TLS"
+          />
+        )}
+      />
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>SASL Authentication</Typography>
+      <Controller
+        name="connectionDetails.sasl"
+        control={control}
+        render={({ field }) => (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={Boolean(field.value)}
+                onChange={event => field.onChange(event.target.checked ? { ...DEFAULT_SASL } : null)}
+                disabled={disabled}
+              />
+            }
+            label="Authenticate with SASL"
+          />
+        )}
+      />
+      {sasl && (
+        <>
+          {select('sasl.mechanism', 'Mechanism', SASL_MECHANISMS)}
+          {textField('sasl.username', 'Username')}
+          {textField('sasl.password', 'Password', { type: 'password' })}
+        </>
+      )}
+    </>
+  );
+
+  const renderAmqp = () => (
+    <>
+      {textField('brokerUrl', 'Broker URL', { placeholder: 'amqps://rabbitmq.example.com:5671' })}
+      {textField('vhost', 'Virtual Host', { placeholder: '/' })}
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        {textField('exchange', 'Exchange', { helperText: 'Leave empty for the default exchange' })}
+        {select('exchangeType', 'Exchange Type', EXCHANGE_TYPES.map(type => ({ value: type, label: type })))}
+      </Box>
+      {textField('routingKey', 'Routing Key', { placeholder: 'orders.*' })}
+      {textField('queueName', 'Queue Name')}
+      {textField('prefetch', 'Prefetch', {
+        type: 'number',
+        helperText: 'Unacknowledged messages the broker sends at once',
+      })}
+    </>
+  );
+
+  const renderSqs = () => (
+    <>
+      {textField('queueUrl', 'Queue URL', {
+        placeholder: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+      })}
+      {textField('region', 'Region', { placeholder: 'us-east-1' })}
+      {textField('endpoint', 'Endpoint', {
+        placeholder: 'http://localhost:9324',
+        helperText: 'Only for SQS-compatible brokers such as ElasticMQ or LocalStack',
+      })}
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        {textField('visibilityTimeout', 'Visibility Timeout (seconds)', { type: 'number' })}
+        {textField('maxMessages', 'Max Messages', { type: 'number' })}
+      </Box>
+    </>
+  );
+
+  const renderGeneric = () => (
+    <>
+      {textField('brokerUrl', 'Broker URL')}
+      {textField('queueName', 'Queue Name')}
+      {textField('consumerGroup', 'Consumer Group')}
+      {textField('maxMessages', 'Max Messages', { type: 'number' })}
+    </>
+  );
+
+  return (
+    <Box>
+      {/* Each broker has its own fields, so changing it starts from that broker's defaults */}
+      <Controller
+        name="connectionDetails"
+        control={control}
+        render={({ field }) => (
+          <FormControl fullWidth margin="normal" error={Boolean(error('brokerType'))}>
+            <InputLabel>Broker Type</InputLabel>
+            <Select
+              value={brokerType}
+              label="Broker Type"
+              onChange={event =>
+                field.onChange({ ...QUEUE_BROKER_DEFAULTS[event.target.value as QueueBrokerType] })
+              }
+              disabled={disabled}
+            >
+              {QUEUE_BROKER_TYPES.map(type => (
+                <MenuItem key={type} value={type}>
+                  {type === 'generic' ? 'Other' : QUEUE_BROKER_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Select>
+            {error('brokerType') && <FormHelperText>{error('brokerType')}</FormHelperText>}
+          </FormControl>
+        )}
+      />
+
+      {brokerType === 'kafka' && renderKafka()}
+      {brokerType === 'amqp' && renderAmqp()}
+      {brokerType === 'sqs' && renderSqs()}
+      {brokerType === 'generic' && renderGeneric()}
+    </Box>
+  );
+};
+
+QueueConfig.displayName = 'QueueConfig';
@@ -0,0 +1,2 @@
+export { QueueConfig } from './QueueConfig';
+export type { QueueConfigProps } from './types';
@@ -0,0 +1,3 @@
+import type { ProtocolConfigProps } from '../../../protocols/types';
+
+export type QueueConfigProps = ProtocolConfigProps;
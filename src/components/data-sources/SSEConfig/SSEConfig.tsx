@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Controller, useWatch } from 'react-hook-form';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  FormControlLabel,
+  FormHelperText,
+  IconButton,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { Button } from '../../common/Button';
+import { EventStreamPreview } from '../EventStreamPreview';
+import { getFieldError } from '../../../utils/validation';
+import { SSEConfigProps } from './types';
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const toRows = (headers?: Record<string, string> | null): HeaderRow[] =>
+  Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }));
+
+const toHeaders = (rows: HeaderRow[]): Record<string, string> =>
+  Object.fromEntries(
+    rows.filter(row => row.name.trim()).map(row => [row.name.trim(), row.value])
+  );
+
+// Rows are kept locally so a header can be renamed without losing its place
+const HeadersField: React.FC<{
+  value?: Record<string, string> | null;
+  onChange: (headers: Record<string, string>) => void;
+  disabled?: boolean;
+}> = ({ value, onChange, disabled }) => {
+  const [rows, setRows] = useState<HeaderRow[]>(() => toRows(value));
+
+  const update = (next: HeaderRow[]) => {
+    setRows(next);
+    onChange(toHeaders(next));
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2">Headers</Typography>
+      {rows.map((row, index) => (
+        <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            label="Name"
+            value={row.name}
+            onChange={event => update(rows.map((item, i) => (i === index ? { ...item, name: event.target.value } : item)))}
+            disabled={disabled}
+            size="small"
+            margin="dense"
+          />
+          <TextField
+            label="Value"
+            value={row.value}
+            onChange={event => update(rows.map((item, i) => (i === index ? { ...item, value: event.target.value } : item)))}
+            disabled={disabled}
+            size="small"
+            margin="dense"
+            fullWidth
+          />
+          <IconButton
+            aria-label={`Remove header ${row.name}`}
+            onClick={() => update(rows.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+      <Button
+        size="small"
+        variant="ghost"
+        onClick={() => setRows([...rows, { name: '', value: '' }])}
+        disabled={disabled}
+      >
+        <AddIcon fontSize="small" />
+        Add header
+      </Button>
+    </Box>
+  );
+};
+
+export const SSEConfig: React.FC<SSEConfigProps> = ({ control, errors, disabled = false }) => {
+  const connectionDetails = useWatch({ control, name: 'connectionDetails' });
+  // Errors for single event types come back as an array, like tag errors
+  const eventTypeErrors = errors.connectionDetails?.eventTypes;
+  const eventTypesError = Array.isArray(eventTypeErrors)
+    ? eventTypeErrors.find(Boolean)?.message
+    : getFieldError(errors, 'connectionDetails.eventTypes');
+
+  const numberField = (value?: number) => (value === undefined || value === null ? '' : value);
+  const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <Box>
+      <Controller
+        name="connectionDetails.url"
+        control={control}
+        render={({ field }) => (
+          <TextField
+            {...field}
+            value={field.value ?? ''}
+            label="Event Stream URL"
+            placeholder="https://api.example.com/events"
+            error={Boolean(getFieldError(errors, 'connectionDetails.url'))}
+            helperText={getFieldError(errors, 'connectionDetails.url')}
+            disabled={disabled}
+            fullWidth
+            margin="normal"
+          />
+        )}
+      />
+
+      <Controller
+        name="connectionDetails.headers"
+        control={control}
+        render={({ field }) => (
+          <HeadersField value={field.value} onChange={field.onChange} disabled={disabled} />
+        )}
+      />
+
+      <Controller
+        name="connectionDetails.eventTypes"
+        control={control}
+        render={({ field }) => (
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={field.value ?? []}
+            disabled={disabled}
+            onChange={(_, types) => field.onChange(Array.from(new Set(types.map(type => type.trim()).filter(Boolean))))}
+            renderTags={(types, getTagProps) =>
+              types.map((type, index) => <Chip size="small" label={type} {...getTagProps({ index })} />)
+            }
+            renderInput={params => (
+              <TextField
+                {...params}
+                label="Event Types"
+                placeholder={(field.value ?? []).length === 0 ? 'All events' : undefined}
+                error={Boolean(eventTypesError)}
+                helperText={eventTypesError ?? 'Only keep events of these types'}
+                margin="normal"
+              />
+            )}
+          />
+        )}
+      />
+
+      <Controller
+        name="connectionDetails.resumeFromLastEventId"
+        control={control}
+        render={({ field }) => (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={field.value ?? true}
+                onChange={event => field.onChange(event.target.checked)}
+                disabled={disabled}
+              />
+            }
+            label="Resume from the last event ID when reconnecting"
+          />
+        )}
+      />
+      <FormHelperText>
+        Sends the Last-Event-ID header so the server can replay missed events.
+      </FormHelperText>
+
+      <Controller
+        name="connectionDetails.lastEventId"
+        control={control}
+        render={({ field }) => (
+          <TextField
+            {...field}
+            value={field.value ?? ''}
+            label="Start After Event ID"
+            helperText={getFieldError(errors, 'connectionDetails.lastEventId') ?? 'Optional; leave empty to start with new events'}
+            error={Boolean(getFieldError(errors, 'connectionDetails.lastEventId'))}
+            disabled={disabled}
+            fullWidth
+            margin="normal"
+          />
+        )}
+      />
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <Controller
+          name="connectionDetails.retryInterval"
+          control={control}
+          render={({ field }) => (
+            <TextField
+              {...field}
+              value={numberField(field.value)}
+              onChange={event => field.onChange(toNumber(event.target.value))}
+              type="number"
+              label="Retry Interval (ms)"
+              error={Boolean(getFieldError(errors, 'connectionDetails.retryInterval'))}
+              helperText={getFieldError(errors, 'connectionDetails.retryInterval') ?? 'Used until the server sends retry:'}
+              disabled={disabled}
+              fullWidth
+              margin="normal"
+            />
+          )}
+        />
+        <Controller
+          name="connectionDetails.maxRetries"
+          control={control}
+          render={({ field }) => (
+            <TextField
+              {...field}
+              value={numberField(field.value)}
+              onChange={event => field.onChange(toNumber(event.target.value))}
+              type="number"
+              label="Max Retries"
+              error={Boolean(getFieldError(errors, 'connectionDetails.maxRetries'))}
+              helperText={getFieldError(errors, 'connectionDetails.maxRetries')}
+              disabled={disabled}
+              fullWidth
+              margin="normal"
+            />
+          )}
+        />
+      </Box>
+
+      <EventStreamPreview connectionDetails={connectionDetails ?? {}} disabled={disabled} />
+    </Box>
+  );
+};
+
+SSEConfig.displayName = 'SSEConfig';
@@ -0,0 +1,2 @@
+export { SSEConfig } from './SSEConfig';
+export type { SSEConfigProps } from './types';
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemText,
+  IconButton,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Snackbar,
+} from '@mui/material';
+import {
+  Bookmarks as ViewsIcon,
+  Delete as DeleteIcon,
+  Link as LinkIcon,
+  BookmarkAdd as SaveIcon,
+} from '@mui/icons-material';
+import { SavedViewsMenuProps } from './types';
+
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  views,
+  currentSearch,
+  onApply,
+  onSave,
+  onDelete,
+  shareUrl,
+}) => {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copyMessage, setCopyMessage] = useState<string | null>(null);
+
+  const activeView = views.find(view => view.search === currentSearch);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setSaveDialogOpen(false);
+    setName('');
+  };
+
+  const handleCopyLink = async () => {
+    setAnchorEl(null);
+    const url = shareUrl ?? window.location.href;
+    try {
+      // navigator.clipboard is missing on insecure origins and rejects without permission
+      await navigator.clipboard.writeText(url);
+      setCopyMessage('Link copied to clipboard');
+    } catch {
+      setCopyMessage(`Could not copy link, copy it by hand: ${url}`);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        startIcon={<ViewsIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        variant="outlined"
+      >
+        {activeView?.name ?? 'Saved Views'}
+      </Button>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        {views.length === 0 && (
+          <MenuItem disabled>No saved views yet</MenuItem>
+        )}
+        {views.map(view => (
+          <MenuItem
+            key={view.id}
+            selected={view.id === activeView?.id}
+            onClick={() => { onApply(view); setAnchorEl(null); }}
+          >
+            <ListItemText primary={view.name} />
+            <IconButton
+              size="small"
+              edge="end"
+              aria-label={`Delete ${view.name}`}
+              onClick={(e) => { e.stopPropagation(); onDelete(view.id); }}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={() => { setSaveDialogOpen(true); setAnchorEl(null); }}>
+          <SaveIcon fontSize="small" sx={{ mr: 1 }} />
+          Save current view...
+        </MenuItem>
+        <MenuItem onClick={handleCopyLink}>
+          <LinkIcon fontSize="small" sx={{ mr: 1 }} />
+          Copy link
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="View name"
+            placeholder="e.g. Failing queue sources"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            helperText={
+              views.some(view => view.name === name.trim())
+                ? 'A view with this name exists and will be replaced'
+                : undefined
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={copyMessage !== null}
+        autoHideDuration={3000}
+        onClose={() => setCopyMessage(null)}
+        message={copyMessage}
+      />
+    </>
+  );
+};
+
+SavedViewsMenu.displayName = 'SavedViewsMenu';
@@ -0,0 +1,2 @@
+export { SavedViewsMenu } from './SavedViewsMenu';
+export type { SavedViewsMenuProps } from './types';
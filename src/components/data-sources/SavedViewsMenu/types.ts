@@ -0,0 +1,31 @@
+import { SavedView } from '../../../store/slices/savedViewsSlice';
+
+export interface SavedViewsMenuProps {
+  /**
+   * Views saved by the current user
+   */
+  views: SavedView[];
+
+  /**
+   * Query string of the view currently shown, used to mark the active view
+   */
+  currentSearch: string;
+
+  /**
+   * Switch to a saved view
+   */
+  onApply: (view: SavedView) => void;
+
+  /**
+   * Save the current view under `name`
+   */
+  onSave: (name: string) => void;
+
+  onDelete: (id: string) => void;
+
+  /**
+   * Link copied by "Copy link"
+   * @default window.location.href
+   */
+  shareUrl?: string;
+}
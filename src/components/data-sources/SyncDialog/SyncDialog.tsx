@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  FormControlLabel,
+  Switch,
+  Chip,
+  Alert,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import {
+  AddCircleOutline as CreateIcon,
+  Edit as UpdateIcon,
+  RemoveCircleOutline as DeleteIcon,
+  CheckCircle as AppliedIcon,
+  Error as FailedIcon,
+  Undo as RolledBackIcon,
+  HourglassEmpty as SkippedIcon,
+} from '@mui/icons-material';
+import { Button } from '../../common/Button';
+import { useDataSourceSync } from '../../../hooks/useDataSourceSync';
+import { detectImportFormat, parseImportFile } from '../../../utils/dataSourceImport';
+import { readTextFile } from '../../../utils/readFile';
+import {
+  formatChangeValue,
+  SyncChange,
+  SyncResultStatus,
+} from '../../../services/sync/dataSourceSync';
+import { SyncDialogProps } from './types';
+import styles from './SyncDialog.module.css';
+
+const CHANGE_ICONS: Record<SyncChange['type'], React.ReactNode> = {
+  create: <CreateIcon color="success" fontSize="small" />,
+  update: <UpdateIcon color="warning" fontSize="small" />,
+  delete: <DeleteIcon color="error" fontSize="small" />,
+};
+
+const CHANGE_LABELS: Record<SyncChange['type'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+const RESULT_ICONS: Record<SyncResultStatus, React.ReactNode> = {
+  applied: <AppliedIcon color="success" fontSize="small" />,
+  failed: <FailedIcon color="error" fontSize="small" />,
+  'rolled-back': <RolledBackIcon color="action" fontSize="small" />,
+  'rollback-failed': <FailedIcon color="error" fontSize="small" />,
+  skipped: <SkippedIcon color="disabled" fontSize="small" />,
+};
+
+const RESULT_LABELS: Record<SyncResultStatus, string> = {
+  applied: 'Applied',
+  failed: 'Failed',
+  'rolled-back': 'Rolled back',
+  'rollback-failed': 'Rollback failed',
+  skipped: 'Not applied',
+};
+
+export const SyncDialog: React.FC<SyncDialogProps> = ({ open, onClose }) => {
+  const { plan, report, planning, applying, error, createPlan, apply, reset } = useDataSourceSync();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [prune, setPrune] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    reset();
+    setFileError(null);
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    const format = detectImportFormat(file.name);
+    if (!format) {
+      setFileError('Unsupported file type. Use a .json, .yaml, .yml or .csv file.');
+      return;
+    }
+
+    try {
+      const desired = parseImportFile(await readTextFile(file), format);
+      await createPlan(desired, { prune });
+    } catch (parseError) {
+      setFileError((parseError as Error).message);
+    }
+  };
+
+  const count = (type: SyncChange['type']) =>
+    plan?.changes.filter(change => change.type === type).length ?? 0;
+
+  const renderChange = (change: SyncChange) => (
+    <ListItem key={`${change.type}-${change.name}`} alignItems="flex-start">
+      <ListItemIcon>{CHANGE_ICONS[change.type]}</ListItemIcon>
+      <ListItemText
+        primary={`${CHANGE_LABELS[change.type]} ${change.name}`}
+        secondary={change.type === 'update' && (
+          <ul className={styles.changes}>
+            {change.changes.map(({ path, before, after }) => (
+              <Typography key={path} component="li" variant="caption">
+                {path}: {formatChangeValue(path, before)} → {formatChangeValue(path, after)}
+              </Typography>
+            ))}
+          </ul>
+        )}
+        secondaryTypographyProps={{ component: 'div' }}
+      />
+    </ListItem>
+  );
+
+  const renderSource = () => (
+    <>
+      <DialogContentText>
+        Choose a file with the data sources you want to exist, in the same format the export
+        writes. You can review every change before anything is applied. Redacted secrets and
+        secret references keep their current values.
+      </DialogContentText>
+      <FormControlLabel
+        control={<Switch checked={prune} onChange={(_, checked) => setPrune(checked)} />}
+        label="Delete data sources that are not in the file"
+        sx={{ my: 2, display: 'flex' }}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.yaml,.yml,.csv"
+        className={styles.fileInput}
+        onChange={handleFileChange}
+      />
+      <Button variant="secondary" onClick={() => fileInputRef.current?.click()} loading={planning}>
+        Choose file and plan
+      </Button>
+      {fileError && <Alert severity="error" sx={{ mt: 2 }}>{fileError}</Alert>}
+    </>
+  );
+
+  const renderPlan = () => plan && (
+    <>
+      <div className={styles.summary}>
+        <Chip color="success" label={`${count('create')} to create`} />
+        <Chip color="warning" label={`${count('update')} to update`} />
+        <Chip color="error" label={`${count('delete')} to delete`} />
+        <Chip label={`${plan.unchanged.length} unchanged`} />
+      </div>
+
+      {plan.errors.length > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          The file has invalid data sources. Fix them before applying:
+          <ul className={styles.changes}>
+            {plan.errors.map(({ index, name, errors }) => (
+              <li key={index}>
+                #{index + 1} {name}: {errors.map(item => `${item.path} ${item.message}`).join('; ')}
+              </li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      {plan.changes.length === 0 && plan.errors.length === 0 && (
+        <Alert severity="success">Everything is already in sync.</Alert>
+      )}
+
+      <List dense>{plan.changes.map(renderChange)}</List>
+      {applying && <LinearProgress />}
+    </>
+  );
+
+  const renderReport = () => report && (
+    <>
+      <Alert severity={report.status === 'applied' ? 'success' : 'error'}>
+        {report.status === 'applied' && `Applied ${report.results.length} changes.`}
+        {report.status === 'rolled-back' && 'A change failed, so every change made was rolled back.'}
+        {report.status === 'rollback-failed' &&
+          'A change failed and some changes could not be rolled back. Check the data sources below.'}
+      </Alert>
+      <List dense>
+        {report.results.map(({ change, status, error: resultError }) => (
+          <ListItem key={`${change.type}-${change.name}`}>
+            <ListItemIcon>{RESULT_ICONS[status]}</ListItemIcon>
+            <ListItemText
+              primary={`${RESULT_LABELS[status]}: ${change.type} ${change.name}`}
+              secondary={resultError}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </>
+  );
+
+  const changeCount = plan?.changes.length ?? 0;
+  const canApply = !report && plan?.errors.length === 0 && changeCount > 0;
+
+  return (
+    <Dialog open={open} onClose={applying ? undefined : handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Sync data sources from a file</DialogTitle>
+      <DialogContent>
+        {!plan && renderSource()}
+        {plan && !report && renderPlan()}
+        {report && renderReport()}
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        {plan && !report && (
+          <Button variant="ghost" onClick={reset} disabled={applying}>
+            Back
+          </Button>
+        )}
+        {canApply && (
+          <Button variant={count('delete') > 0 ? 'danger' : 'primary'} onClick={apply} loading={applying}>
+            Apply {changeCount} changes
+          </Button>
+        )}
+        <Button variant={report ? 'primary' : 'ghost'} onClick={handleClose} disabled={applying}>
+          {report ? 'Done' : 'Cancel'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+SyncDialog.displayName = 'SyncDialog';
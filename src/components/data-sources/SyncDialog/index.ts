@@ -0,0 +1,2 @@
+export { SyncDialog } from './SyncDialog';
+export type { SyncDialogProps } from './types';
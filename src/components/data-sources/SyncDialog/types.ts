@@ -0,0 +1,8 @@
+export interface SyncDialogProps {
+  /**
+   * Whether the dialog is visible
+   */
+  open: boolean;
+
+  onClose: () => void;
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Autocomplete, Chip, TextField } from '@mui/material';
+import { TagEditorProps } from './types';
+
+/**
+ * Trims tags and drops empty and duplicate ones (case-insensitive, first spelling wins)
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const TagEditor: React.FC<TagEditorProps> = ({
+  value,
+  onChange,
+  suggestions = [],
+  label = 'Tags',
+  error,
+  disabled = false,
+}) => (
+  <Autocomplete
+    multiple
+    freeSolo
+    options={suggestions.filter(tag => !value.includes(tag))}
+    value={value}
+    disabled={disabled}
+    onChange={(_, tags) => onChange(normalizeTags(tags))}
+    renderTags={(tags, getTagProps) =>
+      tags.map((tag, index) => <Chip size="small" label={tag} {...getTagProps({ index })} />)
+    }
+    renderInput={params => (
+      <TextField
+        {...params}
+        label={label}
+        placeholder={value.length === 0 ? 'Type a tag and press Enter' : undefined}
+        error={Boolean(error)}
+        helperText={error}
+        margin="normal"
+      />
+    )}
+  />
+);
+
+TagEditor.displayName = 'TagEditor';
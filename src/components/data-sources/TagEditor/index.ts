@@ -0,0 +1,2 @@
+export { TagEditor, normalizeTags } from './TagEditor';
+export type { TagEditorProps } from './types';
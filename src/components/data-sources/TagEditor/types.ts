@@ -0,0 +1,22 @@
+export interface TagEditorProps {
+  /**
+   * Current tags
+   */
+  value: string[];
+
+  onChange: (tags: string[]) => void;
+
+  /**
+   * Existing tags offered as suggestions
+   */
+  suggestions?: string[];
+
+  label?: string;
+
+  /**
+   * Validation message to show under the input
+   */
+  error?: string;
+
+  disabled?: boolean;
+}
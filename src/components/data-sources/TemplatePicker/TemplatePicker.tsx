@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  List,
+  ListSubheader,
+  ListItemButton,
+  ListItemText,
+  ListItemSecondaryAction,
+  IconButton,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { Button } from '../../common/Button';
+import { useDataSourceTemplates } from '../../../hooks/useDataSourceTemplates';
+import {
+  DataSourceTemplate,
+  getTemplateVariables,
+  resolveTemplate,
+} from '../../../utils/dataSourceTemplates';
+import { getProtocols } from '../../../protocols';
+import { TemplatePickerProps } from './types';
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ open, onSelect, onClose }) => {
+  const { templates, deleteTemplate } = useDataSourceTemplates();
+  const [selected, setSelected] = useState<DataSourceTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const variables = useMemo(() => (selected ? getTemplateVariables(selected.config) : []), [selected]);
+  const missing = variables.filter(variable => !values[variable]?.trim());
+
+  const groups = useMemo(
+    () => getProtocols()
+      .map(protocol => ({
+        protocol,
+        templates: templates.filter(template => template.config.protocol === protocol.id),
+      }))
+      .filter(group => group.templates.length > 0),
+    [templates]
+  );
+
+  const handleClose = () => {
+    setSelected(null);
+    setValues({});
+    onClose();
+  };
+
+  const handleUse = () => {
+    if (!selected) return;
+    const trimmed = Object.fromEntries(
+      Object.entries(values).map(([variable, value]) => [variable, value.trim()])
+    );
+    onSelect(resolveTemplate(selected.config, trimmed));
+    handleClose();
+  };
+
+  const renderList = () => (
+    <List dense>
+      {groups.map(group => (
+        <React.Fragment key={group.protocol.id}>
+          <ListSubheader disableSticky>{group.protocol.label}</ListSubheader>
+          {group.templates.map(template => (
+            <ListItemButton key={template.id} onClick={() => setSelected(template)}>
+              <ListItemText
+                primary={template.name}
+                secondary={template.description ?? (template.builtIn ? undefined : 'Your template')}
+              />
+              {!template.builtIn && (
+                <ListItemSecondaryAction>
+                  <IconButton
+                    edge="end"
+                    size="small"
+                    aria-label={`Delete template ${template.name}`}
+                    onClick={() => deleteTemplate(template.id)}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </ListItemSecondaryAction>
+              )}
+            </ListItemButton>
+          ))}
+        </React.Fragment>
+      ))}
+    </List>
+  );
+
+  const renderVariables = () => selected && (
+    <>
+      <Typography variant="subtitle1">{selected.name}</Typography>
+      {variables.length === 0 ? (
+        <DialogContentText>This template has no variables.</DialogContentText>
+      ) : (
+        <>
+          <DialogContentText>
+            Fill in the values to use wherever the template says <code>{'{{variable}}'}</code>.
+          </DialogContentText>
+          {variables.map((variable, index) => (
+            <TextField
+              key={variable}
+              label={variable}
+              value={values[variable] ?? ''}
+              onChange={event => setValues(current => ({ ...current, [variable]: event.target.value }))}
+              autoFocus={index === 0}
+              fullWidth
+              margin="dense"
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>New data source from a template</DialogTitle>
+      <DialogContent>
+        {selected ? renderVariables() : renderList()}
+      </DialogContent>
+      <DialogActions>
+        {selected && (
+          <Button variant="ghost" onClick={() => setSelected(null)}>
+            Back
+          </Button>
+        )}
+        <Button variant="ghost" onClick={handleClose}>
+          Cancel
+        </Button>
+        {selected && (
+          <Button onClick={handleUse} disabled={missing.length > 0}>
+            Use template
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+TemplatePicker.displayName = 'TemplatePicker';
@@ -0,0 +1,15 @@
+import { DataSourceConfig } from '../ConfigurationForm/types';
+
+export interface TemplatePickerProps {
+  /**
+   * Whether the dialog is visible
+   */
+  open: boolean;
+
+  /**
+   * Called with the template config, its variables filled in
+   */
+  onSelect: (config: DataSourceConfig) => void;
+
+  onClose: () => void;
+}
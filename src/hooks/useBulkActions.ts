@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
+import { BulkAction } from '../services/api/dataSources';
+import { runBulkActionThunk, clearBulkResults } from '../store/slices/dataSourcesSlice';
+
+/**
+ * Runs bulk actions over data sources and reports each item's outcome
+ */
+export const useBulkActions = () => {
+  const dispatch = useAppDispatch();
+  const { action, items, running } = useAppSelector(state => state.dataSources.bulk);
+
+  const actions = useMemo(() => ({
+    runBulkAction: (bulkAction: BulkAction, ids: string[]) =>
+      dispatch(runBulkActionThunk({ action: bulkAction, ids })),
+    clearBulkResults: () => dispatch(clearBulkResults()),
+  }), [dispatch]);
+
+  return {
+    action,
+    items,
+    running,
+    ...actions,
+  };
+};
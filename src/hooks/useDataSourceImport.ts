@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react';
+import { useAppDispatch } from '../store';
+import { useDataSources } from './useDataSources';
+import { importDataSourcesThunk, ImportOutcome } from '../store/slices/dataSourcesSlice';
+import { ImportPlan } from '../utils/dataSourceImport';
+
+/**
+ * Loads every existing data source to check an import against, and submits the import
+ */
+export const useDataSourceImport = () => {
+  const dispatch = useAppDispatch();
+  const { dataSources, isLoading } = useDataSources();
+  const [importing, setImporting] = useState(false);
+
+  const runImport = useCallback(async (plan: ImportPlan): Promise<ImportOutcome[]> => {
+    setImporting(true);
+    try {
+      return await dispatch(importDataSourcesThunk(plan)).unwrap();
+    } finally {
+      setImporting(false);
+    }
+  }, [dispatch]);
+
+  return {
+    existingDataSources: dataSources,
+    isLoading,
+    importing,
+    runImport,
+  };
+};
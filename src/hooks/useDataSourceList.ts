@@ -0,0 +1,48 @@
+import { useCallback, useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
+import { DataSourceQuery } from '../services/api/dataSources';
+import {
+  fetchDataSourcePageThunk,
+  selectDataSourceList,
+  selectDataSourceListItems,
+} from '../store/slices/dataSourcesSlice';
+
+/**
+ * Loads the server-filtered, paginated data source list for `query`.
+ * Changing the query starts over from the first page; `loadMore` appends the next.
+ */
+export const useDataSourceList = (query: DataSourceQuery) => {
+  const dispatch = useAppDispatch();
+  const dataSources = useAppSelector(selectDataSourceListItems);
+  const { nextCursor, total, loading, loadingMore, error } = useAppSelector(selectDataSourceList);
+
+  // Compare queries by value so callers can pass a fresh object every render
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    const request = dispatch(fetchDataSourcePageThunk({ query: JSON.parse(queryKey) }));
+    return () => {
+      request.abort();
+    };
+  }, [dispatch, queryKey]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loading || loadingMore) return;
+    dispatch(fetchDataSourcePageThunk({ query: JSON.parse(queryKey), cursor: nextCursor }));
+  }, [dispatch, queryKey, nextCursor, loading, loadingMore]);
+
+  const refetch = useCallback(() => {
+    dispatch(fetchDataSourcePageThunk({ query: JSON.parse(queryKey) }));
+  }, [dispatch, queryKey]);
+
+  return {
+    dataSources,
+    total,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refetch,
+    isLoading: loading,
+    isLoadingMore: loadingMore,
+    error,
+  };
+};
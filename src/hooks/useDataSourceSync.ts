@@ -0,0 +1,70 @@
+import { useCallback, useState } from 'react';
+import { useAppDispatch } from '../store';
+import { refreshDataSourcesThunk, fetchTagCountsThunk } from '../store/slices/dataSourcesSlice';
+import {
+  fetchSyncPlan,
+  applySyncPlan,
+  SyncPlan,
+  SyncPlanOptions,
+  SyncReport,
+} from '../services/sync/dataSourceSync';
+import { formatError } from '../utils/formatters';
+
+/**
+ * Plans a config-as-code sync against the server, then applies it
+ */
+export const useDataSourceSync = () => {
+  const dispatch = useAppDispatch();
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [report, setReport] = useState<SyncReport | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createPlan = useCallback(async (desired: unknown[], options: SyncPlanOptions) => {
+    setPlanning(true);
+    setError(null);
+    setReport(null);
+    try {
+      setPlan(await fetchSyncPlan(desired, options));
+    } catch (planError) {
+      setError(`Could not plan the sync: ${formatError(planError)}`);
+    } finally {
+      setPlanning(false);
+    }
+  }, []);
+
+  const apply = useCallback(async () => {
+    if (!plan) return;
+
+    setApplying(true);
+    setError(null);
+    try {
+      setReport(await applySyncPlan(plan));
+    } catch (applyError) {
+      setError(`Could not apply the sync: ${formatError(applyError)}`);
+    } finally {
+      setApplying(false);
+      // Whatever happened, the server state may have changed
+      dispatch(refreshDataSourcesThunk());
+      dispatch(fetchTagCountsThunk());
+    }
+  }, [dispatch, plan]);
+
+  const reset = useCallback(() => {
+    setPlan(null);
+    setReport(null);
+    setError(null);
+  }, []);
+
+  return {
+    plan,
+    report,
+    planning,
+    applying,
+    error,
+    createPlan,
+    apply,
+    reset,
+  };
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
+import { fetchTagCountsThunk, selectTagCounts } from '../store/slices/dataSourcesSlice';
+
+/**
+ * Tags in use across the tenant with how many data sources carry each
+ */
+export const useDataSourceTags = () => {
+  const dispatch = useAppDispatch();
+  const tagCounts = useAppSelector(selectTagCounts);
+
+  useEffect(() => {
+    const request = dispatch(fetchTagCountsThunk());
+    return () => {
+      request.abort();
+    };
+  }, [dispatch]);
+
+  const refresh = useCallback(() => {
+    dispatch(fetchTagCountsThunk());
+  }, [dispatch]);
+
+  return { tagCounts, refresh };
+};
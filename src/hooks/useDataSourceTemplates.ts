@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
+import { ANONYMOUS_USER } from '../store/slices/savedViewsSlice';
+import { saveTemplate, deleteTemplate, selectUserTemplates } from '../store/slices/templatesSlice';
+import { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
+import { BUILT_IN_TEMPLATES } from '../utils/dataSourceTemplates';
+
+/**
+ * Built-in templates followed by the signed-in user's own
+ */
+export const useDataSourceTemplates = () => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector(state => state.auth.user?.id ?? ANONYMOUS_USER);
+  const userTemplates = useAppSelector(selectUserTemplates(userId));
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...userTemplates], [userTemplates]);
+
+  const actions = useMemo(() => ({
+    saveTemplate: (name: string, config: DataSourceConfig, description?: string) =>
+      dispatch(saveTemplate({ userId, name, description, config })),
+    deleteTemplate: (id: string) => dispatch(deleteTemplate({ userId, id })),
+  }), [dispatch, userId]);
+
+  return {
+    templates,
+    ...actions,
+  };
+};
@@ -1,70 +1,111 @@
-import { useQuery, useMutation, useQueryClient } from 'react-query';
-import { useDispatch, useSelector } from 'react-redux';
-import { 
-  fetchDataSources, 
-  createDataSource, 
-  updateDataSource, 
-  deleteDataSource 
-} from '../services/api/dataSources';
+import { useEffect, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
 import { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
-import { RootState } from '../store';
-import { setDataSources, setLoading, setError } from '../store/slices/dataSourcesSlice';
+import { deserializeApiError, SerializedApiError } from '../services/api/errors';
+import {
+  fetchDataSourcesThunk,
+  createDataSourceThunk,
+  updateDataSourceThunk,
+  deleteDataSourceThunk,
+  setDataSourceEnabledThunk,
+  clearMutationError,
+  selectAllDataSources,
+  selectIsMutating,
+  MutationRejection,
+} from '../store/slices/dataSourcesSlice';
 
-export const useDataSources = () => {
-  const dispatch = useDispatch();
-  const queryClient = useQueryClient();
-  const { items, loading, error } = useSelector((state: RootState) => state.dataSources);
+/**
+ * Resolves with the saved data source, or null when it was queued offline.
+ * Failures are rethrown as ApiError instances so forms can inspect them.
+ */
+const unwrapMutation = async <T>(request: { unwrap: () => Promise<T> }): Promise<T | null> => {
+  try {
+    return await request.unwrap();
+  } catch (error) {
+    if ((error as MutationRejection).queued) return null;
+    throw deserializeApiError(error as SerializedApiError);
+  }
+};
 
-  // Fetch all data sources
-  const { data, isLoading, error: queryError } = useQuery(
-    'dataSources',
-    fetchDataSources,
-    {
-      onSuccess: (data) => {
-        dispatch(setDataSources(data));
-      },
-      onError: (error) => {
-        dispatch(setError(error.message));
-      },
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      cacheTime: 10 * 60 * 1000, // 10 minutes
-    }
-  );
+// Every mounted useDataSources shares one fetch, which is aborted only when the
+// last of them unmounts
+let sharedFetch: { request: { abort: () => void }; subscribers: number } | null = null;
+
+/**
+ * Data source mutations and their pending flags, without loading the full list.
+ * Pages that show a filtered list use this together with useDataSourceList.
+ */
+export const useDataSourceMutations = () => {
+  const dispatch = useAppDispatch();
+  const mutationError = useAppSelector(state => state.dataSources.mutationError);
+  const isCreating = useAppSelector(selectIsMutating('create'));
+  const isUpdating = useAppSelector(selectIsMutating('update'));
+  const isDeleting = useAppSelector(selectIsMutating('delete'));
+  const isToggling = useAppSelector(selectIsMutating('setEnabled'));
+
+  // Stable across renders so memoized rows can take them as props
+  const actions = useMemo(() => ({
+    createDataSource: (data: DataSourceConfig) => dispatch(createDataSourceThunk(data)),
+    updateDataSource: (variables: { id: string; data: Partial<DataSourceConfig> }) =>
+      dispatch(updateDataSourceThunk(variables)),
+    createDataSourceAsync: (data: DataSourceConfig) =>
+      unwrapMutation(dispatch(createDataSourceThunk(data))),
+    updateDataSourceAsync: (variables: { id: string; data: Partial<DataSourceConfig> }) =>
+      unwrapMutation(dispatch(updateDataSourceThunk(variables))),
+    deleteDataSource: (id: string) => dispatch(deleteDataSourceThunk(id)),
+    enableDataSource: (id: string) => dispatch(setDataSourceEnabledThunk({ id, enabled: true })),
+    disableDataSource: (id: string) => dispatch(setDataSourceEnabledThunk({ id, enabled: false })),
+    dismissRollbackNotice: () => dispatch(clearMutationError()),
+  }), [dispatch]);
 
-  // Create data source mutation
-  const createMutation = useMutation(createDataSource, {
-    onSuccess: () => {
-      queryClient.invalidateQueries('dataSources');
-    },
-  });
+  return {
+    ...actions,
+    isCreating,
+    isUpdating,
+    isDeleting,
+    isToggling,
+    rollbackNotice: mutationError,
+  };
+};
+
+/**
+ * Reads data sources from the store and loads them when they are missing or stale.
+ * Every page goes through the same slice, so they always agree on what exists.
+ */
+export const useDataSources = () => {
+  const dispatch = useAppDispatch();
+  const dataSources = useAppSelector(selectAllDataSources);
+  const loading = useAppSelector(state => state.dataSources.loading);
+  const error = useAppSelector(state => state.dataSources.error);
+  const mutations = useDataSourceMutations();
 
-  // Update data source mutation
-  const updateMutation = useMutation(
-    ({ id, data }: { id: string; data: Partial<DataSourceConfig> }) => 
-      updateDataSource(id, data),
-    {
-      onSuccess: () => {
-        queryClient.invalidateQueries('dataSources');
-      },
+  useEffect(() => {
+    if (!sharedFetch) {
+      const request = dispatch(fetchDataSourcesThunk());
+      const current = { request, subscribers: 0 };
+      sharedFetch = current;
+      request.finally(() => {
+        if (sharedFetch === current) sharedFetch = null;
+      });
     }
-  );
+    const subscription = sharedFetch;
+    subscription.subscribers += 1;
 
-  // Delete data source mutation
-  const deleteMutation = useMutation(deleteDataSource, {
-    onSuccess: () => {
-      queryClient.invalidateQueries('dataSources');
-    },
-  });
+    // Abort once nobody is waiting so a late response never lands after we are gone
+    return () => {
+      subscription.subscribers -= 1;
+      if (subscription.subscribers === 0) {
+        subscription.request.abort();
+        if (sharedFetch === subscription) sharedFetch = null;
+      }
+    };
+  }, [dispatch]);
 
   return {
-    dataSources: items,
-    isLoading: isLoading || loading,
-    error: queryError || error,
-    createDataSource: createMutation.mutate,
-    updateDataSource: updateMutation.mutate,
-    deleteDataSource: deleteMutation.mutate,
-    isCreating: createMutation.isLoading,
-    isUpdating: updateMutation.isLoading,
-    isDeleting: deleteMutation.isLoading,
+    dataSources,
+    isLoading: loading,
+    error,
+    refetch: () => dispatch(fetchDataSourcesThunk({ force: true })),
+    ...mutations,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,17 @@
+import { useLocation } from 'react-router-dom';
+import { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
+
+/**
+ * Router state for `/data-sources/new` when the form starts prefilled,
+ * e.g. from a template or a duplicated data source
+ */
+export interface NewDataSourceLocationState {
+  initialValues?: DataSourceConfig;
+}
+
+/**
+ * Values to prefill the new data source form with, if any. Pass them to
+ * ConfigurationForm together with `mode="create"`.
+ */
+export const useNewDataSourceDraft = (): DataSourceConfig | undefined =>
+  (useLocation().state as NewDataSourceLocationState | null)?.initialValues;
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
+import {
+  getPendingChangesById,
+  isOffline,
+  markPending,
+  removeEntry,
+  replayOutboxThunk,
+  selectOutboxConflicts,
+  selectOutboxEntries,
+} from '../store/slices/outboxSlice';
+import { refreshDataSourcesThunk } from '../store/slices/dataSourcesSlice';
+
+/**
+ * Exposes the offline outbox and replays it whenever the browser comes back online
+ */
+export const useOutbox = () => {
+  const dispatch = useAppDispatch();
+  const entries = useAppSelector(selectOutboxEntries);
+  const conflicts = useAppSelector(selectOutboxConflicts);
+  const replaying = useAppSelector(state => state.outbox.replaying);
+
+  const replay = useCallback(async () => {
+    const result = await dispatch(replayOutboxThunk());
+    if (replayOutboxThunk.fulfilled.match(result) && result.payload.replayed > 0) {
+      dispatch(refreshDataSourcesThunk());
+    }
+  }, [dispatch]);
+
+  useEffect(() => {
+    // Flush anything left over from a previous session
+    if (!isOffline()) {
+      replay();
+    }
+
+    window.addEventListener('online', replay);
+    return () => {
+      window.removeEventListener('online', replay);
+    };
+  }, [replay]);
+
+  const pendingChanges = useMemo(() => getPendingChangesById(entries), [entries]);
+
+  return {
+    entries,
+    conflicts,
+    pendingChanges,
+    replaying,
+    replay,
+    retryEntry: (id: string) => {
+      dispatch(markPending(id));
+      replay();
+    },
+    discardEntry: (id: string) => dispatch(removeEntry(id)),
+  };
+};
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '../store';
+import {
+  ANONYMOUS_USER,
+  saveView,
+  renameView,
+  deleteView,
+  selectSavedViews,
+} from '../store/slices/savedViewsSlice';
+
+/**
+ * Named views of the Data Sources page saved by the signed-in user
+ */
+export const useSavedViews = () => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector(state => state.auth.user?.id ?? ANONYMOUS_USER);
+  const views = useAppSelector(selectSavedViews(userId));
+
+  const actions = useMemo(() => ({
+    saveView: (name: string, search: string) => dispatch(saveView({ userId, name, search })),
+    renameView: (id: string, name: string) => dispatch(renameView({ userId, id, name })),
+    deleteView: (id: string) => dispatch(deleteView({ userId, id })),
+  }), [dispatch, userId]);
+
+  return {
+    views,
+    ...actions,
+  };
+};
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useDispatch } from 'react-redux';
+import { addRealtimeData, updateConnectionStatus } from '../store/slices/realtimeSlice';
+import { openEventStream, parseEventData, ServerSentEvent } from '../services/realtime/eventStream';
+
+interface UseServerSentEventsOptions {
+  url: string;
+  /**
+   * Data source the events belong to. When set, events and connection status go
+   * to the realtime store like WebSocket data; a preview of an unsaved config
+   * leaves it out.
+   */
+  sourceId?: string;
+  headers?: Record<string, string>;
+  /**
+   * Event types to keep; all events are kept when empty
+   */
+  eventTypes?: string[];
+  /**
+   * Event ID to resume after on the first connection
+   */
+  lastEventId?: string;
+  /**
+   * Send the last received event ID when reconnecting
+   */
+  resumeFromLastEventId?: boolean;
+  /**
+   * Delay before reconnecting, until the server sends its own `retry:`
+   */
+  retryInterval?: number;
+  maxRetries?: number;
+  /**
+   * Connect while true
+   */
+  enabled?: boolean;
+  onMessage?: (event: ServerSentEvent, data: unknown) => void;
+  onError?: (error: Error) => void;
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    // Each reconnect waits on the same signal, so drop the listener once the delay is over
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const useServerSentEvents = ({
+  url,
+  sourceId,
+  headers,
+  eventTypes,
+  lastEventId: initialLastEventId,
+  resumeFromLastEventId = true,
+  retryInterval = 3000,
+  maxRetries = 5,
+  enabled = true,
+  onMessage,
+  onError
+}: UseServerSentEventsOptions) => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  const [lastEventId, setLastEventId] = useState(initialLastEventId);
+  const controllerRef = useRef<AbortController | null>(null);
+  const dispatch = useDispatch();
+
+  // Callbacks and object options change identity on every render; read them
+  // through refs so they do not restart the stream
+  const handlersRef = useRef({ onMessage, onError });
+  handlersRef.current = { onMessage, onError };
+  const headersKey = JSON.stringify(headers ?? {});
+  const eventTypesKey = JSON.stringify(eventTypes ?? []);
+
+  const connect = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const requestHeaders: Record<string, string> = JSON.parse(headersKey);
+    const acceptedTypes: string[] = JSON.parse(eventTypesKey);
+    const setStatus = (status: 'connected' | 'disconnected' | 'error') => {
+      if (sourceId) {
+        dispatch(updateConnectionStatus({ sourceId, status }));
+      }
+    };
+
+    let resumeId = initialLastEventId;
+    let delay = retryInterval;
+    let attempts = 0;
+
+    const run = async () => {
+      while (!controller.signal.aborted) {
+        let reconnect = true;
+        let failed = false;
+        try {
+          reconnect = await openEventStream({
+            url,
+            headers: requestHeaders,
+            lastEventId: resumeId,
+            signal: controller.signal,
+            onOpen: () => {
+              attempts = 0;
+              setIsConnected(true);
+              setReconnectAttempts(0);
+              setStatus('connected');
+            },
+            onRetry: serverDelay => {
+              delay = serverDelay;
+            },
+            onId: id => {
+              if (resumeFromLastEventId) {
+                resumeId = id || undefined;
+                setLastEventId(resumeId);
+              }
+            },
+            onEvent: event => {
+              if (acceptedTypes.length > 0 && !acceptedTypes.includes(event.type)) {
+                return;
+              }
+              const data = parseEventData(event.data);
+              if (sourceId) {
+                dispatch(addRealtimeData({ sourceId, data }));
+              }
+              handlersRef.current.onMessage?.(event, data);
+            },
+          });
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Event stream error:', error);
+          handlersRef.current.onError?.(error as Error);
+          setStatus('error');
+          failed = true;
+        }
+
+        if (controller.signal.aborted) return;
+        setIsConnected(false);
+        // Keep the error visible instead of overwriting it right away
+        if (!failed) {
+          setStatus('disconnected');
+        }
+
+        if (!reconnect || attempts >= maxRetries) return;
+        attempts += 1;
+        setReconnectAttempts(attempts);
+        await wait(delay, controller.signal);
+      }
+    };
+
+    run();
+  }, [url, sourceId, headersKey, eventTypesKey, initialLastEventId, resumeFromLastEventId, retryInterval, maxRetries, dispatch]);
+
+  const disconnect = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsConnected(false);
+    setReconnectAttempts(0);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !url) {
+      return undefined;
+    }
+    connect();
+
+    return () => {
+      disconnect();
+    };
+  }, [enabled, url, connect, disconnect]);
+
+  return {
+    isConnected,
+    lastEventId,
+    disconnect,
+    reconnect: connect,
+    reconnectAttempts
+  };
+};
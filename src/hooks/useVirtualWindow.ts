@@ -0,0 +1,87 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+export interface VirtualWindowOptions {
+  rowCount: number;
+  /**
+   * Fixed height of every row in pixels
+   */
+  rowHeight: number;
+  /**
+   * Extra rows rendered above and below the viewport
+   * @default 3
+   */
+  overscan?: number;
+  /**
+   * Track the container's own scroll position instead of the page's
+   * @default false
+   */
+  scrollContainer?: boolean;
+}
+
+export interface VirtualWindow {
+  startRow: number;
+  endRow: number;
+  totalHeight: number;
+}
+
+// Rows rendered before the first measurement, e.g. during tests
+const INITIAL_ROWS = 20;
+
+/**
+ * Works out which fixed-height rows of `containerRef` are on screen so only
+ * those need to be rendered
+ */
+export const useVirtualWindow = (
+  containerRef: RefObject<HTMLElement>,
+  { rowCount, rowHeight, overscan = 3, scrollContainer = false }: VirtualWindowOptions
+): VirtualWindow => {
+  const [range, setRange] = useState({ start: 0, end: Math.min(rowCount, INITIAL_ROWS) });
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let scrollTop: number;
+    let viewportHeight: number;
+    if (scrollContainer) {
+      scrollTop = container.scrollTop;
+      viewportHeight = container.clientHeight;
+    } else {
+      // How far the page has scrolled past the top of the container
+      scrollTop = Math.max(0, -container.getBoundingClientRect().top);
+      viewportHeight = window.innerHeight;
+    }
+
+    const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+    const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [containerRef, rowCount, rowHeight, overscan, scrollContainer]);
+
+  useEffect(() => {
+    measure();
+
+    const target: HTMLElement | Window | null = scrollContainer ? containerRef.current : window;
+    if (!target) return;
+
+    // Measure at most once per frame while scrolling
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(measure);
+    };
+
+    target.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      target.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [measure, scrollContainer, containerRef]);
+
+  return {
+    startRow: range.start,
+    endRow: range.end,
+    totalHeight: rowCount * rowHeight,
+  };
+};
@@ -1,16 +1,55 @@
-import React from 'react';
-import { Grid, Paper, Typography, Box } from '@mui/material';
+import React, { useState } from 'react';
+import { Grid, Paper, Typography, Box, FormControlLabel, Switch } from '@mui/material';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
+import { useDataSources } from '../../hooks/useDataSources';
+import { DataSource } from '../../services/api/dataSources';
+import { selectDataSourcesGroupedByTag } from '../../store/slices/dataSourcesSlice';
+import { VirtualGrid } from '../../components/common/VirtualGrid';
 import { ConnectionStatusCard } from '../../components/visualizations/ConnectionStatus';
 import { MetricsDashboard } from '../../components/visualizations/MetricsDashboard';
 import { RecentActivityList } from '../../components/features/RecentActivityList';
 import { QuickActions } from '../../components/features/QuickActions';
 import styles from './Dashboard.module.css';
 
+// Status cards scroll inside the section so the rest of the dashboard stays in view
+const STATUS_CARD_HEIGHT = 96;
+const STATUS_CARD_MIN_WIDTH = 220;
+const STATUS_GRID_HEIGHT = 480;
+const STATUS_GROUP_HEIGHT = 240;
+
+// Memoized so a live status change re-renders only the affected card
+const MemoizedStatusCard = React.memo<{ dataSource: DataSource; status: string }>(
+  ({ dataSource, status }) => (
+    <ConnectionStatusCard dataSource={dataSource} status={status} />
+  )
+);
+
+MemoizedStatusCard.displayName = 'MemoizedStatusCard';
+
 export const Dashboard: React.FC = () => {
-  const { items: dataSources } = useSelector((state: RootState) => state.dataSources);
+  const { dataSources } = useDataSources();
   const { connections } = useSelector((state: RootState) => state.realtime);
+  const tagGroups = useSelector(selectDataSourcesGroupedByTag);
+  const [groupByTag, setGroupByTag] = useState(false);
+
+  const renderStatusGrid = (items: DataSource[], height: number) => (
+    <VirtualGrid
+      className={styles.connectionGrid}
+      items={items}
+      getKey={source => source.id}
+      itemHeight={STATUS_CARD_HEIGHT}
+      minItemWidth={STATUS_CARD_MIN_WIDTH}
+      gap={16}
+      height={height}
+      renderItem={source => (
+        <MemoizedStatusCard
+          dataSource={source}
+          status={connections[source.id] || 'disconnected'}
+        />
+      )}
+    />
+  );
 
   const activeConnections = Object.values(connections).filter(
     conn => conn === 'connected'
@@ -74,18 +113,31 @@ export const Dashboard: React.FC = () => {
         {/* Connection Status */}
         <Grid item xs={12} md={8}>
           <Paper className={styles.section}>
-            <Typography variant="h6" gutterBottom>
-              Connection Status
-            </Typography>
-            <Box className={styles.connectionGrid}>
-              {dataSources.map(source => (
-                <ConnectionStatusCard
-                  key={source.id}
-                  dataSource={source}
-                  status={connections[source.id] || 'disconnected'}
-                />
-              ))}
+            <Box className={styles.sectionHeader}>
+              <Typography variant="h6" gutterBottom>
+                Connection Status
+              </Typography>
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={groupByTag}
+                    onChange={(e) => setGroupByTag(e.target.checked)}
+                  />
+                }
+                label="Group by tag"
+              />
             </Box>
+            {groupByTag
+              ? tagGroups.map(group => (
+                  <Box key={group.tag ?? 'untagged'} className={styles.tagGroup}>
+                    <Typography variant="subtitle2" color="textSecondary" gutterBottom>
+                      {group.tag ?? 'Untagged'} ({group.dataSources.length})
+                    </Typography>
+                    {renderStatusGrid(group.dataSources, STATUS_GROUP_HEIGHT)}
+                  </Box>
+                ))
+              : renderStatusGrid(dataSources, STATUS_GRID_HEIGHT)}
           </Paper>
         </Grid>
 
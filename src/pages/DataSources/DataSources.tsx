@@ -1,64 +1,425 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { 
   Box, 
   Typography, 
   Button, 
-  Grid, 
   TextField, 
   InputAdornment,
+  Autocomplete,
   IconButton,
   Menu,
-  MenuItem
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Alert,
+  Chip,
+  Snackbar,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Checkbox
 } from '@mui/material';
 import { 
   Add as AddIcon, 
   Search as SearchIcon,
   FilterList as FilterIcon,
-  MoreVert as MoreIcon
+  Sort as SortIcon,
+  LocalOffer as TagIcon,
+  ViewModule as GridViewIcon,
+  ViewList as TableViewIcon,
+  FileUpload as ImportIcon,
+  FileDownload as ExportIcon,
+  Sync as SyncIcon,
+  ContentCopy as DuplicateIcon,
+  Description as TemplateIcon
 } from '@mui/icons-material';
-import { useNavigate } from 'react-router-dom';
-import { useDataSources } from '../../hooks/useDataSources';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useDataSourceMutations } from '../../hooks/useDataSources';
+import { useDataSourceList } from '../../hooks/useDataSourceList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { useSavedViews } from '../../hooks/useSavedViews';
+import { useBulkActions } from '../../hooks/useBulkActions';
+import { useDataSourceTags } from '../../hooks/useDataSourceTags';
+import {
+  BulkAction,
+  DataSourceQuery,
+  DataSourceSortField,
+  exportDataSources
+} from '../../services/api/dataSources';
+import { useOutbox } from '../../hooks/useOutbox';
+import { applyOutboxEntries, PendingChange } from '../../store/slices/outboxSlice';
+import { DataSource } from '../../services/api/dataSources';
 import { DataSourceCard } from '../../components/data-sources/DataSourceCard';
+import { DataSourceTable } from '../../components/data-sources/DataSourceTable';
+import { SavedViewsMenu } from '../../components/data-sources/SavedViewsMenu';
+import { BulkActionBar } from '../../components/data-sources/BulkActionBar';
+import { BulkProgressDialog } from '../../components/data-sources/BulkProgressDialog';
+import { ImportWizard } from '../../components/data-sources/ImportWizard';
+import { ExportDialog, ExportOptions, ExportScope } from '../../components/data-sources/ExportDialog';
+import { SyncDialog } from '../../components/data-sources/SyncDialog';
+import { TemplatePicker } from '../../components/data-sources/TemplatePicker';
+import { DataSourceConfig } from '../../components/data-sources/ConfigurationForm/types';
+import { NewDataSourceLocationState } from '../../hooks/useNewDataSourceDraft';
+import { duplicateDataSource } from '../../utils/dataSourceTemplates';
+import { VirtualGrid } from '../../components/common/VirtualGrid';
 import { EmptyState } from '../../components/common/EmptyState';
 import { LoadingState } from '../../components/common/LoadingState';
 import { ErrorState } from '../../components/common/ErrorState';
+import {
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  deserializeApiError
+} from '../../services/api/errors';
+import { formatError, formatPendingChange } from '../../utils/formatters';
+import { downloadFile } from '../../utils/download';
+import {
+  prepareExport,
+  serializeExport,
+  getExportFilename,
+  EXPORT_MIME_TYPES
+} from '../../utils/dataSourceExport';
+import {
+  parseDataSourceQuery,
+  formatDataSourceQuery,
+  toDataSourceQuery,
+  fromDataSourceQuery,
+  matchesDataSourceFilter,
+  getQuerySuggestions,
+} from '../../utils/dataSourceQuery';
+import { getProtocol, getProtocols } from '../../protocols';
 import styles from './DataSources.module.css';
 
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof NetworkError) {
+    return error.offline
+      ? 'You are offline. Data sources will load once your connection is restored.'
+      : 'Unable to reach the server. Please check your connection.';
+  }
+  if (error instanceof PermissionError) {
+    return 'You do not have permission to view data sources.';
+  }
+  if (error instanceof NotFoundError) {
+    return 'The data sources you are looking for could not be found.';
+  }
+  return formatError(error);
+};
+
+// Card height and minimum width used to lay out the virtualized grid
+const CARD_HEIGHT = 240;
+const CARD_MIN_WIDTH = 320;
+
+type ViewMode = 'grid' | 'table';
+
+interface DataSourceGridItemProps {
+  dataSource: DataSource;
+  pendingChange?: PendingChange;
+  selected: boolean;
+  onToggleSelect: (id: string) => void;
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+  onTest: (id: string) => void;
+  onDuplicate: (id: string) => void;
+}
+
+// Memoized so a live status update re-renders only the affected card
+const DataSourceGridItem = React.memo<DataSourceGridItemProps>(
+  ({ dataSource, pendingChange, selected, onToggleSelect, onEdit, onDelete, onTest, onDuplicate }) => (
+    <Box className={styles.gridItem}>
+      <Checkbox
+        className={styles.selectCheckbox}
+        checked={selected}
+        onChange={() => onToggleSelect(dataSource.id)}
+        inputProps={{ 'aria-label': `Select ${dataSource.name}` }}
+      />
+      <IconButton
+        size="small"
+        className={styles.duplicateButton}
+        onClick={() => onDuplicate(dataSource.id)}
+        aria-label={`Duplicate ${dataSource.name}`}
+      >
+        <DuplicateIcon fontSize="small" />
+      </IconButton>
+      {pendingChange && (
+        <Chip
+          size="small"
+          className={styles.pendingChip}
+          {...formatPendingChange(pendingChange)}
+        />
+      )}
+      <DataSourceCard
+        dataSource={dataSource}
+        onEdit={() => onEdit(dataSource.id)}
+        onDelete={() => onDelete(dataSource.id)}
+        onTest={() => onTest(dataSource.id)}
+      />
+    </Box>
+  )
+);
+
+DataSourceGridItem.displayName = 'DataSourceGridItem';
+
+const STATUS_OPTIONS: Array<{ value: NonNullable<DataSourceQuery['status']>; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'error', label: 'Error' },
+];
+
+const SORT_OPTIONS: Array<{ sort: DataSourceSortField; order: 'asc' | 'desc'; label: string }> = [
+  { sort: 'name', order: 'asc', label: 'Name (A-Z)' },
+  { sort: 'name', order: 'desc', label: 'Name (Z-A)' },
+  { sort: 'updatedAt', order: 'desc', label: 'Recently updated' },
+  { sort: 'createdAt', order: 'desc', label: 'Newest first' },
+  { sort: 'lastConnectedAt', order: 'desc', label: 'Recently connected' },
+];
+
+// Filters live in the URL so a filtered view can be bookmarked and shared
+const readQuery = (params: URLSearchParams): DataSourceQuery => ({
+  q: params.get('q') || undefined,
+  protocol: (params.get('protocol') as DataSourceQuery['protocol']) || undefined,
+  status: (params.get('status') as DataSourceQuery['status']) || undefined,
+  tag: params.get('tag') || undefined,
+  sort: (params.get('sort') as DataSourceSortField) || 'name',
+  order: params.get('order') === 'desc' ? 'desc' : 'asc',
+});
+
+// Parameter order does not matter when matching the URL against a saved view
+const normalizeSearch = (params: URLSearchParams): string =>
+  new URLSearchParams(
+    Array.from(params.entries()).sort(([a], [b]) => a.localeCompare(b))
+  ).toString();
+
 export const DataSources: React.FC = () => {
   const navigate = useNavigate();
-  const { dataSources, isLoading, error, deleteDataSource } = useDataSources();
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filterProtocol, setFilterProtocol] = useState<string>('all');
-  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => readQuery(searchParams), [searchParams]);
+  const view: ViewMode = searchParams.get('view') === 'table' ? 'table' : 'grid';
+  const {
+    dataSources,
+    total,
+    hasMore,
+    loadMore,
+    refetch,
+    isLoading,
+    isLoadingMore,
+    error
+  } = useDataSourceList(query);
+  const { deleteDataSource, rollbackNotice, dismissRollbackNotice } = useDataSourceMutations();
+  const { entries: outboxEntries, conflicts, pendingChanges, retryEntry, discardEntry } = useOutbox();
+  const { views: savedViews, saveView, deleteView } = useSavedViews();
+  const currentSearch = normalizeSearch(searchParams);
+  const {
+    action: bulkAction,
+    items: bulkItems,
+    running: bulkRunning,
+    runBulkAction,
+    clearBulkResults
+  } = useBulkActions();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [bulkDialogOpen, setBulkDialogOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope | null>(null);
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  // Names captured when a bulk action starts; deleted items leave the list
+  const bulkNames = useRef<Map<string, string>>(new Map());
+  const urlSearch = formatDataSourceQuery(fromDataSourceQuery(query));
+  const [searchInput, setSearchInput] = useState(urlSearch);
+  const debouncedSearch = useDebouncedValue(searchInput);
+  const parsedSearch = useMemo(() => parseDataSourceQuery(debouncedSearch), [debouncedSearch]);
+  const [protocolAnchor, setProtocolAnchor] = useState<null | HTMLElement>(null);
+  const [statusAnchor, setStatusAnchor] = useState<null | HTMLElement>(null);
+  const [sortAnchor, setSortAnchor] = useState<null | HTMLElement>(null);
+  const [tagAnchor, setTagAnchor] = useState<null | HTMLElement>(null);
+  const { tagCounts, refresh: refreshTags } = useDataSourceTags();
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+
+  const lastSearch = useRef(debouncedSearch);
+  const searchInputRef = useRef(searchInput);
+  searchInputRef.current = searchInput;
+
+  const updateQuery = useCallback(
+    (changes: Partial<Record<keyof DataSourceQuery | 'view', string | undefined>>) => {
+      setSearchParams(current => {
+        const next = new URLSearchParams(current);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        return next;
+      }, { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  // Push the parsed search into the URL once typing pauses; invalid input
+  // keeps the last valid filters
+  useEffect(() => {
+    if (debouncedSearch === lastSearch.current) return;
+    lastSearch.current = debouncedSearch;
+    if (parsedSearch.errors.length > 0) return;
+    updateQuery(toDataSourceQuery(parsedSearch.filter));
+  }, [debouncedSearch, parsedSearch, updateQuery]);
+
+  // Show filters changed elsewhere (menus, back button) in the search bar
+  useEffect(() => {
+    const typed = parseDataSourceQuery(searchInputRef.current).filter;
+    if (formatDataSourceQuery(fromDataSourceQuery(toDataSourceQuery(typed))) !== urlSearch) {
+      lastSearch.current = urlSearch;
+      setSearchInput(urlSearch);
+    }
+  }, [urlSearch]);
+
+  const knownTags = useMemo(
+    () => Array.from(new Set([
+      ...tagCounts.map(({ tag }) => tag),
+      ...dataSources.flatMap(source => source.tags ?? []),
+    ])).sort(),
+    [tagCounts, dataSources]
+  );
+
+  // Tag counts change once a bulk action has finished
+  useEffect(() => {
+    if (!bulkRunning && bulkAction) {
+      refreshTags();
+    }
+  }, [bulkRunning, bulkAction, refreshTags]);
+  const suggestions = useMemo(
+    () => getQuerySuggestions(searchInput, { tags: knownTags }),
+    [searchInput, knownTags]
+  );
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || view !== 'grid' || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, view]);
+
+  const hasFilters = Boolean(query.q || query.protocol || query.status || query.tag);
+  const protocolLabel = query.protocol ? getProtocol(query.protocol)?.label : undefined;
+  const statusLabel = STATUS_OPTIONS.find(option => option.value === query.status)?.label;
+  const sortLabel = SORT_OPTIONS.find(
+    option => option.sort === query.sort && option.order === query.order
+  )?.label ?? 'Sort';
 
   const handleCreateNew = () => {
     navigate('/data-sources/new');
   };
 
-  const handleEdit = (id: string) => {
+  const openNewDataSourceForm = useCallback((initialValues: DataSourceConfig) => {
+    const state: NewDataSourceLocationState = { initialValues };
+    navigate('/data-sources/new', { state });
+  }, [navigate]);
+
+  const handleEdit = useCallback((id: string) => {
     navigate(`/data-sources/${id}/edit`);
-  };
+  }, [navigate]);
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = useCallback((id: string) => {
     if (window.confirm('Are you sure you want to delete this data source?')) {
       deleteDataSource(id);
     }
+  }, [deleteDataSource]);
+
+  const handleTest = useCallback((id: string) => {
+    navigate(`/data-sources/${id}/test`);
+  }, [navigate]);
+
+  const handleDuplicate = useCallback((id: string) => {
+    const source = dataSources.find(item => item.id === id);
+    if (source) {
+      openNewDataSourceForm(duplicateDataSource(source, dataSources.map(item => item.name)));
+    }
+  }, [dataSources, openNewDataSourceForm]);
+
+  const handleToggleSelect = useCallback((id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleBulkAction = (action: BulkAction) => {
+    const ids = Array.from(selectedIds);
+    bulkNames.current = new Map(
+      visibleDataSources.filter(source => selectedIds.has(source.id)).map(source => [source.id, source.name])
+    );
+    setBulkDialogOpen(true);
+    runBulkAction(action, ids);
+  };
+
+  // Failed items stay selected so they can be retried
+  const handleCloseBulkDialog = () => {
+    setSelectedIds(new Set(
+      Object.entries(bulkItems).filter(([, item]) => item.status === 'failed').map(([id]) => id)
+    ));
+    setBulkDialogOpen(false);
+    clearBulkResults();
   };
 
-  const filteredDataSources = dataSources.filter(source => {
-    const matchesSearch = source.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         source.description?.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesProtocol = filterProtocol === 'all' || source.protocol === filterProtocol;
-    
-    return matchesSearch && matchesProtocol;
-  });
+  // The API filters on a single tag; further tags from the search bar apply client-side
+  const extraTags = useMemo(
+    () => (parsedSearch.errors.length === 0 ? parsedSearch.filter.tags.slice(1) : []),
+    [parsedSearch]
+  );
 
-  if (isLoading) {
+  const handleExport = async ({ scope, format, secrets }: ExportOptions) => {
+    let configs = await exportDataSources(
+      scope === 'selected' ? { ids: Array.from(selectedIds) } :
+      scope === 'view' ? { query: { q: query.q, protocol: query.protocol, status: query.status, tag: query.tag } } :
+      {}
+    );
+    if (scope === 'view' && extraTags.length > 0) {
+      configs = configs.filter(config =>
+        extraTags.every(tag => (config.tags ?? []).some(item => item.toLowerCase() === tag.toLowerCase()))
+      );
+    }
+
+    const exported = prepareExport(configs, secrets);
+    downloadFile(
+      getExportFilename(format),
+      serializeExport(exported.dataSources, format),
+      EXPORT_MIME_TYPES[format]
+    );
+    setExportNotice(
+      `Exported ${exported.dataSources.length} data sources` +
+      (exported.secrets.length > 0
+        ? `; ${exported.secrets.length} secrets ${secrets === 'redact' ? 'redacted' : 'replaced with references'}`
+        : '')
+    );
+  };
+
+  // Queued offline edits are shown on top of the last known server state
+  const visibleDataSources = useMemo(
+    () => applyOutboxEntries(dataSources, outboxEntries, query).filter(source =>
+      matchesDataSourceFilter(source, { text: [], tags: extraTags })
+    ),
+    [dataSources, outboxEntries, query, extraTags]
+  );
+
+  if (isLoading && dataSources.length === 0) {
     return <LoadingState message="Loading data sources..." />;
   }
 
   if (error) {
-    return <ErrorState message={error} onRetry={() => window.location.reload()} />;
+    return <ErrorState message={getErrorMessage(deserializeApiError(error))} onRetry={refetch} />;
   }
 
   return (
@@ -68,73 +429,251 @@ export const DataSources: React.FC = () => {
         <Typography variant="h4" component="h1">
           Data Sources
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={handleCreateNew}
-        >
-          New Data Source
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<ImportIcon />}
+            onClick={() => setImportOpen(true)}
+          >
+            Import
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<ExportIcon />}
+            onClick={() => setExportScope(hasFilters ? 'view' : 'all')}
+          >
+            Export
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<SyncIcon />}
+            onClick={() => setSyncOpen(true)}
+          >
+            Sync
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<TemplateIcon />}
+            onClick={() => setTemplatePickerOpen(true)}
+          >
+            From Template
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateNew}
+          >
+            New Data Source
+          </Button>
+        </Box>
       </Box>
 
+      {/* Offline sync conflicts */}
+      {conflicts.map(entry => (
+        <Alert
+          key={entry.id}
+          severity="error"
+          className={styles.syncAlert}
+          action={
+            <>
+              <Button color="inherit" size="small" onClick={() => retryEntry(entry.id)}>
+                Retry
+              </Button>
+              <Button color="inherit" size="small" onClick={() => discardEntry(entry.id)}>
+                Discard
+              </Button>
+            </>
+          }
+        >
+          Could not sync offline {entry.operation.type}: {entry.error}
+        </Alert>
+      ))}
+
       {/* Filters */}
       <Box className={styles.filters}>
-        <TextField
-          placeholder="Search data sources..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          InputProps={{
-            startAdornment: (
-              <InputAdornment position="start">
-                <SearchIcon />
-              </InputAdornment>
-            ),
-          }}
+        <Autocomplete
+          freeSolo
+          options={suggestions}
+          filterOptions={options => options}
+          getOptionLabel={option => (typeof option === 'string' ? option : option.value)}
+          renderOption={(props, option) => <li {...props}>{option.label}</li>}
+          inputValue={searchInput}
+          onInputChange={(_, value) => setSearchInput(value)}
           className={styles.searchField}
+          renderInput={params => (
+            <TextField
+              {...params}
+              placeholder='Search, e.g. protocol:grpc status:error "orders api"'
+              error={parsedSearch.errors.length > 0}
+              helperText={parsedSearch.errors[0]?.message}
+              InputProps={{
+                ...params.InputProps,
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+          )}
         />
 
         <Button
           startIcon={<FilterIcon />}
-          onClick={(e) => setAnchorEl(e.currentTarget)}
+          onClick={(e) => setProtocolAnchor(e.currentTarget)}
           variant="outlined"
         >
-          {filterProtocol === 'all' ? 'All Protocols' : filterProtocol.toUpperCase()}
+          {protocolLabel ?? 'All Protocols'}
         </Button>
 
         <Menu
-          anchorEl={anchorEl}
-          open={Boolean(anchorEl)}
-          onClose={() => setAnchorEl(null)}
+          anchorEl={protocolAnchor}
+          open={Boolean(protocolAnchor)}
+          onClose={() => setProtocolAnchor(null)}
         >
-          <MenuItem onClick={() => { setFilterProtocol('all'); setAnchorEl(null); }}>
+          <MenuItem onClick={() => { updateQuery({ protocol: undefined }); setProtocolAnchor(null); }}>
             All Protocols
           </MenuItem>
-          <MenuItem onClick={() => { setFilterProtocol('http'); setAnchorEl(null); }}>
-            HTTP/REST
-          </MenuItem>
-          <MenuItem onClick={() => { setFilterProtocol('websocket'); setAnchorEl(null); }}>
-            WebSocket
-          </MenuItem>
-          <MenuItem onClick={() => { setFilterProtocol('grpc'); setAnchorEl(null); }}>
-            gRPC
+          {getProtocols().map(({ id, label, icon: Icon }) => (
+            <MenuItem
+              key={id}
+              selected={query.protocol === id}
+              onClick={() => { updateQuery({ protocol: id }); setProtocolAnchor(null); }}
+            >
+              <ListItemIcon>
+                <Icon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText primary={label} />
+            </MenuItem>
+          ))}
+        </Menu>
+
+        <Button
+          startIcon={<FilterIcon />}
+          onClick={(e) => setStatusAnchor(e.currentTarget)}
+          variant="outlined"
+        >
+          {statusLabel ?? 'All Statuses'}
+        </Button>
+
+        <Menu
+          anchorEl={statusAnchor}
+          open={Boolean(statusAnchor)}
+          onClose={() => setStatusAnchor(null)}
+        >
+          <MenuItem onClick={() => { updateQuery({ status: undefined }); setStatusAnchor(null); }}>
+            All Statuses
           </MenuItem>
-          <MenuItem onClick={() => { setFilterProtocol('queue'); setAnchorEl(null); }}>
-            Message Queue
+          {STATUS_OPTIONS.map(option => (
+            <MenuItem
+              key={option.value}
+              selected={query.status === option.value}
+              onClick={() => { updateQuery({ status: option.value }); setStatusAnchor(null); }}
+            >
+              {option.label}
+            </MenuItem>
+          ))}
+        </Menu>
+
+        <Button
+          startIcon={<SortIcon />}
+          onClick={(e) => setSortAnchor(e.currentTarget)}
+          variant="outlined"
+        >
+          {sortLabel}
+        </Button>
+
+        <Menu
+          anchorEl={sortAnchor}
+          open={Boolean(sortAnchor)}
+          onClose={() => setSortAnchor(null)}
+        >
+          {SORT_OPTIONS.map(option => (
+            <MenuItem
+              key={option.label}
+              selected={query.sort === option.sort && query.order === option.order}
+              onClick={() => {
+                updateQuery({ sort: option.sort, order: option.order });
+                setSortAnchor(null);
+              }}
+            >
+              {option.label}
+            </MenuItem>
+          ))}
+        </Menu>
+
+        <Button
+          startIcon={<TagIcon />}
+          onClick={(e) => setTagAnchor(e.currentTarget)}
+          variant="outlined"
+          disabled={tagCounts.length === 0 && !query.tag}
+        >
+          {query.tag ? `Tag: ${query.tag}` : 'All Tags'}
+        </Button>
+
+        <Menu
+          anchorEl={tagAnchor}
+          open={Boolean(tagAnchor)}
+          onClose={() => setTagAnchor(null)}
+        >
+          <MenuItem onClick={() => { updateQuery({ tag: undefined }); setTagAnchor(null); }}>
+            All Tags
           </MenuItem>
+          {tagCounts.map(({ tag, count }) => (
+            <MenuItem
+              key={tag}
+              selected={query.tag === tag}
+              onClick={() => { updateQuery({ tag }); setTagAnchor(null); }}
+            >
+              {tag}
+              <Chip size="small" label={count} className={styles.facetCount} />
+            </MenuItem>
+          ))}
         </Menu>
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={view}
+          onChange={(_, value: ViewMode | null) => {
+            if (value) updateQuery({ view: value === 'table' ? 'table' : undefined });
+          }}
+          className={styles.viewToggle}
+        >
+          <ToggleButton value="grid" aria-label="Card view">
+            <GridViewIcon fontSize="small" />
+          </ToggleButton>
+          <ToggleButton value="table" aria-label="Table view">
+            <TableViewIcon fontSize="small" />
+          </ToggleButton>
+        </ToggleButtonGroup>
+
+        <SavedViewsMenu
+          views={savedViews}
+          currentSearch={currentSearch}
+          onApply={view => setSearchParams(new URLSearchParams(view.search))}
+          onSave={name => saveView(name, currentSearch)}
+          onDelete={deleteView}
+        />
       </Box>
 
+      {total > 0 && (
+        <Typography variant="body2" color="text.secondary" className={styles.resultCount}>
+          Showing {dataSources.length} of {total} data sources
+        </Typography>
+      )}
+
       {/* Data Sources Grid */}
-      {filteredDataSources.length === 0 ? (
+      {visibleDataSources.length === 0 ? (
         <EmptyState
           title="No data sources found"
           description={
-            searchQuery || filterProtocol !== 'all'
+            hasFilters
               ? "Try adjusting your search or filters"
               : "Create your first data source to get started"
           }
           action={
-            !searchQuery && filterProtocol === 'all' && (
+            !hasFilters && (
               <Button
                 variant="contained"
                 startIcon={<AddIcon />}
@@ -145,20 +684,122 @@ export const DataSources: React.FC = () => {
             )
           }
         />
+      ) : view === 'table' ? (
+        <DataSourceTable
+          dataSources={visibleDataSources}
+          pendingChanges={pendingChanges}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onTest={handleTest}
+          onDuplicate={handleDuplicate}
+          selectedIds={selectedIds}
+          onToggleSelect={handleToggleSelect}
+          onToggleAll={selected =>
+            setSelectedIds(selected ? new Set(visibleDataSources.map(source => source.id)) : new Set())
+          }
+          onEndReached={hasMore ? loadMore : undefined}
+        />
       ) : (
-        <Grid container spacing={3}>
-          {filteredDataSources.map(source => (
-            <Grid item xs={12} md={6} lg={4} key={source.id}>
-              <DataSourceCard
-                dataSource={source}
-                onEdit={() => handleEdit(source.id)}
-                onDelete={() => handleDelete(source.id)}
-                onTest={() => navigate(`/data-sources/${source.id}/test`)}
-              />
-            </Grid>
-          ))}
-        </Grid>
+        <VirtualGrid
+          items={visibleDataSources}
+          getKey={source => source.id}
+          itemHeight={CARD_HEIGHT}
+          minItemWidth={CARD_MIN_WIDTH}
+          renderItem={source => (
+            <DataSourceGridItem
+              dataSource={source}
+              pendingChange={pendingChanges[source.id]}
+              selected={selectedIds.has(source.id)}
+              onToggleSelect={handleToggleSelect}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onTest={handleTest}
+              onDuplicate={handleDuplicate}
+            />
+          )}
+        />
       )}
+
+      {view === 'table' && isLoadingMore && (
+        <Box className={styles.loadMore}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {/* Infinite scroll sentinel; the button covers browsers without IntersectionObserver */}
+      {view === 'grid' && hasMore && (
+        <Box ref={loadMoreRef} className={styles.loadMore}>
+          {isLoadingMore ? (
+            <CircularProgress size={24} />
+          ) : (
+            <Button variant="outlined" onClick={loadMore}>
+              Load more
+            </Button>
+          )}
+        </Box>
+      )}
+
+      {selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          availableTags={knownTags}
+          onAction={handleBulkAction}
+          onExport={() => setExportScope('selected')}
+          onClear={() => setSelectedIds(new Set())}
+          disabled={bulkRunning}
+        />
+      )}
+
+      <BulkProgressDialog
+        open={bulkDialogOpen}
+        action={bulkAction}
+        items={bulkItems}
+        getName={id => bulkNames.current.get(id) ?? id}
+        running={bulkRunning}
+        onClose={handleCloseBulkDialog}
+      />
+
+      {/* Mounted only while open; the wizard loads every data source to check for clashes */}
+      {importOpen && <ImportWizard open onClose={() => setImportOpen(false)} />}
+
+      <SyncDialog open={syncOpen} onClose={() => setSyncOpen(false)} />
+
+      <TemplatePicker
+        open={templatePickerOpen}
+        onSelect={openNewDataSourceForm}
+        onClose={() => setTemplatePickerOpen(false)}
+      />
+
+      <ExportDialog
+        open={exportScope !== null}
+        defaultScope={exportScope ?? 'all'}
+        selectedCount={selectedIds.size}
+        viewCount={total}
+        hasViewFilters={hasFilters}
+        onExport={handleExport}
+        onClose={() => setExportScope(null)}
+      />
+
+      <Snackbar
+        open={Boolean(exportNotice)}
+        autoHideDuration={6000}
+        onClose={() => setExportNotice(null)}
+      >
+        <Alert severity="success" onClose={() => setExportNotice(null)}>
+          {exportNotice}
+        </Alert>
+      </Snackbar>
+
+      {/* Optimistic update rollback notice */}
+      <Snackbar
+        open={Boolean(rollbackNotice)}
+        autoHideDuration={6000}
+        onClose={dismissRollbackNotice}
+      >
+        <Alert severity="error" onClose={dismissRollbackNotice}>
+          {rollbackNotice}
+        </Alert>
+      </Snackbar>
     </Box>
   );
 };
@@ -0,0 +1,26 @@
+import { lazy } from 'react';
+import type * as yup from 'yup';
+import { Hub as GrpcIcon } from '@mui/icons-material';
+import { grpcConfigSchema } from '../utils/validation';
+import { ProtocolDefinition } from './types';
+
+declare module './types' {
+  interface ProtocolConnectionDetails {
+    grpc: yup.InferType<typeof grpcConfigSchema>;
+  }
+}
+
+export const grpcProtocol: ProtocolDefinition<'grpc'> = {
+  id: 'grpc',
+  label: 'gRPC',
+  icon: GrpcIcon,
+  ConfigComponent: lazy(() =>
+    import('../components/data-sources/GRPCConfig').then(module => ({ default: module.GRPCConfig }))
+  ),
+  schema: grpcConfigSchema,
+  defaultConnectionDetails: {
+    endpoint: '',
+    service: '',
+    method: '',
+  },
+};
@@ -0,0 +1,27 @@
+import { lazy } from 'react';
+import type * as yup from 'yup';
+import { Http as HttpIcon } from '@mui/icons-material';
+import { httpConfigSchema } from '../utils/validation';
+import { ProtocolDefinition } from './types';
+
+declare module './types' {
+  interface ProtocolConnectionDetails {
+    http: yup.InferType<typeof httpConfigSchema>;
+  }
+}
+
+export const httpProtocol: ProtocolDefinition<'http'> = {
+  id: 'http',
+  label: 'HTTP/REST',
+  icon: HttpIcon,
+  ConfigComponent: lazy(() =>
+    import('../components/data-sources/HTTPConfig').then(module => ({ default: module.HTTPConfig }))
+  ),
+  schema: httpConfigSchema,
+  defaultConnectionDetails: {
+    url: '',
+    method: 'GET',
+    timeout: 30000,
+    retryCount: 3,
+  },
+};
@@ -0,0 +1,9 @@
+/**
+ * Data source protocols. A protocol is one module (see `http.ts`) that declares
+ * its connection details type and exports a `ProtocolDefinition`; adding it to
+ * the built-ins in `registry.ts` makes it available to the configuration form,
+ * validation, menus and formatting.
+ */
+export * from './types';
+export * from './registry';
+export * from './validation';
@@ -0,0 +1,61 @@
+import { lazy } from 'react';
+import type * as yup from 'yup';
+import { Sensors as MqttIcon } from '@mui/icons-material';
+import { mqttConfigSchema } from '../utils/validation';
+import { testMqttConnection } from '../services/realtime/mqtt';
+import { ProtocolDefinition } from './types';
+
+declare module './types' {
+  interface ProtocolConnectionDetails {
+    mqtt: yup.InferType<typeof mqttConfigSchema>;
+  }
+}
+
+type MqttConnectionDetails = yup.InferType<typeof mqttConfigSchema>;
+
+/**
+ * WebSocket endpoint the browser can test, if the config has one
+ */
+export const getMqttWebSocketUrl = (details: Partial<MqttConnectionDetails>): string | null => {
+  if (details.websocketUrl) return details.websocketUrl;
+  return details.brokerUrl && /^wss?:\/\//.test(details.brokerUrl) ? details.brokerUrl : null;
+};
+
+export const mqttProtocol: ProtocolDefinition<'mqtt'> = {
+  id: 'mqtt',
+  label: 'MQTT',
+  icon: MqttIcon,
+  ConfigComponent: lazy(() =>
+    import('../components/data-sources/MQTTConfig').then(module => ({ default: module.MQTTConfig }))
+  ),
+  schema: mqttConfigSchema,
+  defaultConnectionDetails: {
+    brokerUrl: '',
+    topics: [],
+    qos: 0,
+    cleanSession: true,
+    keepAlive: 60,
+    authType: 'none',
+  },
+  // Browsers cannot open plain MQTT connections or present client certificates,
+  // so those configs are tested by the server
+  testConnection: ({ connectionDetails }) => {
+    const details = connectionDetails as MqttConnectionDetails;
+    const url = getMqttWebSocketUrl(details);
+    if (!url || details.authType === 'certificate') return null;
+
+    return testMqttConnection({
+      url,
+      topics: details.topics ?? [],
+      qos: details.qos as 0 | 1 | 2,
+      clientId: details.clientId,
+      cleanSession: details.cleanSession,
+      keepAlive: details.keepAlive,
+      username: details.authType === 'password' ? details.username : undefined,
+      password: details.authType === 'password' ? details.password ?? undefined : undefined,
+      lastWill: details.lastWill
+        ? { ...details.lastWill, qos: details.lastWill.qos as 0 | 1 | 2 | undefined }
+        : null,
+    });
+  },
+};
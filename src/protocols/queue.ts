@@ -0,0 +1,70 @@
+import { lazy } from 'react';
+import type * as yup from 'yup';
+import { Queue as QueueIcon } from '@mui/icons-material';
+import { QueueBrokerType, queueBrokerSchemas, queueConfigSchema } from '../utils/validation';
+import { ProtocolDefinition } from './types';
+
+declare module './types' {
+  interface ProtocolConnectionDetails {
+    queue: yup.InferType<typeof queueConfigSchema>;
+  }
+}
+
+type QueueConnectionDetails<B extends QueueBrokerType> = yup.InferType<typeof queueBrokerSchemas[B]>;
+
+export const QUEUE_BROKER_LABELS: Record<QueueBrokerType, string> = {
+  generic: 'Message Queue',
+  kafka: 'Kafka',
+  amqp: 'RabbitMQ/AMQP',
+  sqs: 'SQS',
+};
+
+/**
+ * Connection details a queue starts with after picking its broker type
+ */
+export const QUEUE_BROKER_DEFAULTS: { [B in QueueBrokerType]: Partial<QueueConnectionDetails<B>> } = {
+  generic: {
+    brokerType: 'generic',
+    brokerUrl: '',
+    queueName: '',
+    maxMessages: 100,
+  },
+  kafka: {
+    brokerType: 'kafka',
+    bootstrapServers: [],
+    topics: [],
+    consumerGroup: '',
+    offsetReset: 'latest',
+    ssl: false,
+  },
+  amqp: {
+    brokerType: 'amqp',
+    brokerUrl: '',
+    vhost: '/',
+    exchange: '',
+    exchangeType: 'direct',
+    routingKey: '',
+    queueName: '',
+    prefetch: 10,
+  },
+  sqs: {
+    brokerType: 'sqs',
+    region: '',
+    queueUrl: '',
+    visibilityTimeout: 30,
+    maxMessages: 10,
+  },
+};
+
+export const queueProtocol: ProtocolDefinition<'queue'> = {
+  id: 'queue',
+  label: 'Message Queue',
+  icon: QueueIcon,
+  ConfigComponent: lazy(() =>
+    import('../components/data-sources/QueueConfig').then(module => ({ default: module.QueueConfig }))
+  ),
+  schema: queueConfigSchema,
+  defaultConnectionDetails: QUEUE_BROKER_DEFAULTS.generic,
+  // Queues saved before broker types existed have none and keep the generic label
+  formatLabel: ({ brokerType }) => QUEUE_BROKER_LABELS[brokerType as QueueBrokerType],
+};
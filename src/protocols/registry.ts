@@ -0,0 +1,37 @@
+import { DataSourceProtocol, ProtocolDefinition } from './types';
+import { httpProtocol } from './http';
+import { websocketProtocol } from './websocket';
+import { sseProtocol } from './sse';
+import { grpcProtocol } from './grpc';
+import { queueProtocol } from './queue';
+import { mqttProtocol } from './mqtt';
+
+const protocols = new Map<string, ProtocolDefinition>();
+
+/**
+ * Adds a protocol, replacing any protocol registered under the same id
+ */
+export const registerProtocol = (definition: ProtocolDefinition): void => {
+  protocols.set(definition.id, definition);
+};
+
+export const getProtocol = (id: string): ProtocolDefinition | undefined => protocols.get(id);
+
+/**
+ * Registered protocols in registration order, which is the order menus list them in
+ */
+export const getProtocols = (): ProtocolDefinition[] => Array.from(protocols.values());
+
+export const isRegisteredProtocol = (id: unknown): id is DataSourceProtocol =>
+  typeof id === 'string' && protocols.has(id);
+
+export const getConnectionDetailsSchema = (protocol: string) => getProtocol(protocol)?.schema ?? null;
+
+/**
+ * A fresh copy of a protocol's default connection details
+ */
+export const getDefaultConnectionDetails = (protocol: string): Record<string, any> =>
+  JSON.parse(JSON.stringify(getProtocol(protocol)?.defaultConnectionDetails ?? {}));
+
+// Built-in protocols
+[httpProtocol, websocketProtocol, sseProtocol, grpcProtocol, queueProtocol, mqttProtocol].forEach(registerProtocol);
@@ -0,0 +1,29 @@
+import { lazy } from 'react';
+import type * as yup from 'yup';
+import { RssFeed as SSEIcon } from '@mui/icons-material';
+import { sseConfigSchema } from '../utils/validation';
+import { ProtocolDefinition } from './types';
+
+declare module './types' {
+  interface ProtocolConnectionDetails {
+    sse: yup.InferType<typeof sseConfigSchema>;
+  }
+}
+
+export const sseProtocol: ProtocolDefinition<'sse'> = {
+  id: 'sse',
+  label: 'Server-Sent Events',
+  icon: SSEIcon,
+  ConfigComponent: lazy(() =>
+    import('../components/data-sources/SSEConfig').then(module => ({ default: module.SSEConfig }))
+  ),
+  schema: sseConfigSchema,
+  defaultConnectionDetails: {
+    url: '',
+    headers: {},
+    eventTypes: [],
+    resumeFromLastEventId: true,
+    retryInterval: 3000,
+    maxRetries: 5,
+  },
+};
@@ -0,0 +1,66 @@
+import type { ComponentType } from 'react';
+import type { Control, FieldErrors } from 'react-hook-form';
+import type { SvgIconComponent } from '@mui/icons-material';
+import type * as yup from 'yup';
+import type { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
+import type { TestConnectionRequest, TestConnectionResponse } from '../services/api/dataSources';
+
+/**
+ * Connection details of every registered protocol, keyed by protocol id. Each
+ * protocol module adds its own entry:
+ *
+ *   declare module './types' {
+ *     interface ProtocolConnectionDetails {
+ *       http: yup.InferType<typeof httpConfigSchema>;
+ *     }
+ *   }
+ */
+export interface ProtocolConnectionDetails {}
+
+export type DataSourceProtocol = keyof ProtocolConnectionDetails;
+
+/**
+ * Props the configuration form passes to a protocol's config component
+ */
+export interface ProtocolConfigProps {
+  control: Control<DataSourceConfig>;
+  /**
+   * Form errors; connection detail errors are under `errors.connectionDetails`
+   */
+  errors: FieldErrors<DataSourceConfig>;
+  disabled?: boolean;
+}
+
+export interface ProtocolDefinition<P extends DataSourceProtocol = DataSourceProtocol> {
+  id: P;
+  /**
+   * Display name, e.g. in menus and the data source table
+   */
+  label: string;
+  icon: SvgIconComponent;
+  /**
+   * Form section for the connection details. Loaded lazily so that non-UI code
+   * (validation, the sync script) can use the registry without pulling it in.
+   */
+  ConfigComponent: ComponentType<ProtocolConfigProps>;
+  /**
+   * Validates `connectionDetails`. A lazy schema can pick the shape from the value,
+   * like the queue protocol does for each broker type.
+   */
+  schema: yup.AnyObjectSchema | ReturnType<typeof yup.lazy>;
+  /**
+   * Connection details a new data source of this protocol starts with
+   */
+  defaultConnectionDetails: Partial<ProtocolConnectionDetails[P]>;
+  /**
+   * Display name for a data source's connection details, e.g. the broker type of
+   * a queue. Falls back to `label`.
+   */
+  formatLabel?: (connectionDetails: Record<string, any>) => string | undefined;
+  /**
+   * Tests a connection in the browser. Returns null when this config can only be
+   * tested by the server's test-connection endpoint, which also tests protocols
+   * without one.
+   */
+  testConnection?: (config: TestConnectionRequest) => Promise<TestConnectionResponse> | null;
+}
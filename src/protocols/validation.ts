@@ -0,0 +1,49 @@
+import * as yup from 'yup';
+import { dataSourceNameSchema } from '../utils/validation';
+import { getConnectionDetailsSchema, isRegisteredProtocol } from './registry';
+
+// A complete data source definition, e.g. one row of an import file
+export const dataSourceConfigSchema = yup.object({
+  name: dataSourceNameSchema,
+  protocol: yup
+    .string()
+    .test('registered-protocol', 'Unknown protocol', value => value == null || isRegisteredProtocol(value))
+    .required('Protocol is required'),
+  description: yup.string().nullable(),
+  tags: yup.array(yup.string().required()).nullable(),
+  enabled: yup.boolean(),
+  connectionDetails: yup
+    .object()
+    .required('Connection details are required')
+    .when('protocol', (protocol: string, schema: yup.AnyObjectSchema) =>
+      getConnectionDetailsSchema(protocol) ?? schema
+    ),
+});
+
+export interface ConfigValidationError {
+  /**
+   * Dotted path of the offending field, e.g. `connectionDetails.url`
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * Validates and casts a data source definition, collecting every error
+ */
+export const validateDataSourceConfig = (
+  value: unknown
+): { value: yup.InferType<typeof dataSourceConfigSchema> | null; errors: ConfigValidationError[] } => {
+  try {
+    return { value: dataSourceConfigSchema.validateSync(value, { abortEarly: false }), errors: [] };
+  } catch (error) {
+    if (error instanceof yup.ValidationError) {
+      const details = error.inner.length > 0 ? error.inner : [error];
+      return {
+        value: null,
+        errors: details.map(item => ({ path: item.path ?? '', message: item.message })),
+      };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { lazy } from 'react';
+import type * as yup from 'yup';
+import { SwapHoriz as WebSocketIcon } from '@mui/icons-material';
+import { websocketConfigSchema } from '../utils/validation';
+import { ProtocolDefinition } from './types';
+
+declare module './types' {
+  interface ProtocolConnectionDetails {
+    websocket: yup.InferType<typeof websocketConfigSchema>;
+  }
+}
+
+export const websocketProtocol: ProtocolDefinition<'websocket'> = {
+  id: 'websocket',
+  label: 'WebSocket',
+  icon: WebSocketIcon,
+  ConfigComponent: lazy(() =>
+    import('../components/data-sources/WebSocketConfig').then(module => ({ default: module.WebSocketConfig }))
+  ),
+  schema: websocketConfigSchema,
+  defaultConnectionDetails: {
+    url: '',
+    reconnectInterval: 5000,
+    maxReconnectAttempts: 5,
+  },
+};
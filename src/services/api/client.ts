@@ -1,32 +1,146 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
-import { getAuthToken, removeAuthToken } from '../auth/tokenService';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import { setAuthToken, removeAuthToken } from '../auth/tokenService';
+import { authService } from '../auth/authService';
+import {
+  RetryOptions,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  getRetryDelay,
+  sleep,
+} from './retry';
+import { createApiError, RequestCancelledError } from './errors';
+import type { ApiMiddleware } from './middleware';
+import { authMiddleware } from './middleware';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
-class ApiClient {
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  /**
+   * Retry overrides for this request, or false to never retry it
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Share identical in-flight GET requests between callers
+   * @default true
+   */
+  dedupe?: boolean;
+
+  /**
+   * Free-form values shared between middleware for the lifetime of a request
+   */
+  metadata?: Record<string, unknown>;
+}
+
+export interface ApiClientOptions {
+  /**
+   * Base URL every request path is resolved against
+   */
+  baseURL: string;
+
+  /**
+   * Request timeout in milliseconds
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * Headers sent with every request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Default retry policy for this client
+   */
+  retry?: Partial<RetryPolicy>;
+
+  /**
+   * Middleware registered in order; requests pass through them first to last
+   */
+  middleware?: ApiMiddleware[];
+
+  /**
+   * Obtains a new token when a request fails with 401, see `setTokenRefresher`
+   */
+  tokenRefresher?: TokenRefresher;
+}
+
+interface InternalRequestConfig extends ApiRequestConfig {
+  _retryAttempt?: number;
+  _authReplayed?: boolean;
+}
+
+/**
+ * Obtains a fresh access token, resolving to null when the session is gone
+ */
+export type TokenRefresher = () => Promise<string | null>;
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export class ApiClient {
   private client: AxiosInstance;
+  private retryPolicy: RetryPolicy;
+  private middleware: ApiMiddleware[] = [];
+  private tokenRefresher: TokenRefresher | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+  private inflight = new Map<string, InflightRequest>();
 
-  constructor() {
+  constructor(options: ApiClientOptions) {
     this.client = axios.create({
-      baseURL: API_BASE_URL,
-      timeout: 30000,
+      baseURL: options.baseURL,
+      timeout: options.timeout ?? 30000,
       headers: {
         'Content-Type': 'application/json',
+        ...options.headers,
       },
     });
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.tokenRefresher = options.tokenRefresher ?? null;
 
+    options.middleware?.forEach(middleware => this.use(middleware));
     this.setupInterceptors();
   }
 
+  /**
+   * Registers a middleware. A middleware with the same name is replaced in place.
+   *
+   * @returns A function that removes the middleware again
+   */
+  use(middleware: ApiMiddleware): () => void {
+    const index = this.middleware.findIndex(item => item.name === middleware.name);
+    if (index === -1) {
+      this.middleware.push(middleware);
+    } else {
+      this.middleware[index] = middleware;
+    }
+    return () => this.eject(middleware.name);
+  }
+
+  eject(name: string): void {
+    this.middleware = this.middleware.filter(item => item.name !== name);
+  }
+
   private setupInterceptors(): void {
     // Request interceptor
     this.client.interceptors.request.use(
-      (config) => {
-        const token = getAuthToken();
-        if (token && config.headers) {
-          config.headers.Authorization = `Bearer ${token}`;
+      async (config) => {
+        // Hold new requests while a refresh is running so they carry the new token
+        if (this.refreshPromise) {
+          await this.refreshPromise;
+        }
+
+        let next: ApiRequestConfig = config;
+        for (const middleware of this.middleware) {
+          if (middleware.onRequest) {
+            next = await middleware.onRequest(next);
+          }
         }
-        return config;
+        return next as typeof config;
       },
       (error) => {
         return Promise.reject(error);
@@ -35,60 +149,217 @@ class ApiClient {
 
     // Response interceptor
     this.client.interceptors.response.use(
-      (response) => {
-        return response;
+      async (response) => {
+        // Responses unwind through the middleware in reverse order
+        let next: AxiosResponse = response;
+        for (const middleware of [...this.middleware].reverse()) {
+          if (middleware.onResponse) {
+            next = await middleware.onResponse(next);
+          }
+        }
+        return next;
       },
       async (error: AxiosError) => {
+        const config = error.config as InternalRequestConfig | undefined;
+
+        for (const middleware of [...this.middleware].reverse()) {
+          await middleware.onError?.(error);
+        }
+        if (config) {
+          const attempt = (config._retryAttempt ?? 0) + 1;
+          const delay = getRetryDelay(error, attempt, resolveRetryPolicy(config.retry, this.retryPolicy));
+          if (delay !== null) {
+            config._retryAttempt = attempt;
+            await sleep(delay, config.signal as AbortSignal | undefined);
+            return this.client.request(config);
+          }
+        }
+
+        if (error.response?.status === 401 && config && !config._authReplayed) {
+          const token = await this.refreshAuthToken();
+          if (token) {
+            // Replay the original request exactly once with the new token
+            config._authReplayed = true;
+            return this.client.request(config);
+          }
+        }
+
         if (error.response?.status === 401) {
-          removeAuthToken();
-          window.location.href = '/login';
+          this.redirectToLogin();
         }
 
-        const errorMessage = this.extractErrorMessage(error);
-        return Promise.reject(new Error(errorMessage));
+        return Promise.reject(createApiError(error));
       }
     );
   }
 
-  private extractErrorMessage(error: AxiosError): string {
-    if (error.response?.data) {
-      const data = error.response.data as any;
-      return data.message || data.error || 'An error occurred';
+  /**
+   * Refreshes the access token. Concurrent callers share a single refresh,
+   * so every request that failed with 401 waits for the same new token.
+   */
+  private refreshAuthToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestNewToken().finally(() => {
+        this.refreshPromise = null;
+      });
     }
-    
-    if (error.request) {
-      return 'No response from server. Please check your connection.';
+    return this.refreshPromise;
+  }
+
+  private async requestNewToken(): Promise<string | null> {
+    if (!this.tokenRefresher) {
+      return null;
+    }
+
+    try {
+      const token = await this.tokenRefresher();
+      if (token) {
+        setAuthToken(token);
+      }
+      return token;
+    } catch (error) {
+      console.error('Failed to refresh access token:', error);
+      return null;
     }
-    
-    return error.message || 'An unexpected error occurred';
+  }
+
+  private redirectToLogin(): void {
+    // Node scripts such as scripts/sync-data-sources.ts have no session or login page
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    removeAuthToken();
+
+    const { pathname, search, hash } = window.location;
+    if (pathname === '/login') {
+      return;
+    }
+
+    const returnTo = encodeURIComponent(`${pathname}${search}${hash}`);
+    window.location.href = `/login?returnTo=${returnTo}`;
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /**
+   * Sets how requests that failed with 401 obtain a new token. The shared
+   * `apiClient` uses the auth service's silent renewal; without a refresher,
+   * a 401 goes straight to the login page.
+   */
+  setTokenRefresher(refresher: TokenRefresher | null): void {
+    this.tokenRefresher = refresher;
+  }
+
+  private getRequestKey(url: string, config: ApiRequestConfig): string {
+    return `${url}?${JSON.stringify(config.params ?? {})}`;
+  }
+
+  /**
+   * Joins a shared in-flight request. The underlying request is only aborted
+   * once every caller that joined it has aborted its own signal.
+   */
+  private subscribe<T>(key: string, entry: InflightRequest, signal?: AbortSignal | null): Promise<T> {
+    entry.subscribers += 1;
+
+    if (!signal) {
+      return entry.promise as Promise<T>;
+    }
+
+    const release = () => {
+      entry.subscribers -= 1;
+      if (entry.subscribers === 0) {
+        entry.controller.abort();
+        if (this.inflight.get(key) === entry) {
+          this.inflight.delete(key);
+        }
+      }
+    };
+
+    if (signal.aborted) {
+      release();
+      return Promise.reject(new RequestCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        release();
+        reject(new RequestCancelledError());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      (entry.promise as Promise<T>).then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
   }
 
   // HTTP methods
-  async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.get<T>(url, config);
-    return response.data;
+  async get<T>(url: string, config: ApiRequestConfig = {}): Promise<T> {
+    const { signal, dedupe = true, ...rest } = config;
+
+    if (!dedupe) {
+      const response = await this.client.get<T>(url, config);
+      return response.data;
+    }
+
+    const key = this.getRequestKey(url, rest);
+    let entry = this.inflight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const settle = () => {
+        if (this.inflight.get(key)?.controller === controller) {
+          this.inflight.delete(key);
+        }
+      };
+      const promise = this.client.get<T>(url, { ...rest, signal: controller.signal }).then(
+        (response) => {
+          settle();
+          return response.data;
+        },
+        (error) => {
+          settle();
+          throw error;
+        }
+      );
+
+      entry = { promise, controller, subscribers: 0 };
+      this.inflight.set(key, entry);
+    }
+
+    return this.subscribe<T>(key, entry, signal as AbortSignal | undefined);
   }
 
-  async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  async post<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.post<T>(url, data, config);
     return response.data;
   }
 
-  async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  async put<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.put<T>(url, data, config);
     return response.data;
   }
 
-  async patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  async patch<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.patch<T>(url, data, config);
     return response.data;
   }
 
-  async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  async delete<T>(url: string, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.delete<T>(url, config);
     return response.data;
   }
 }
 
-export const apiClient = new ApiClient();
+export const createApiClient = (options: ApiClientOptions): ApiClient => new ApiClient(options);
+
+export const apiClient = createApiClient({
+  baseURL: API_BASE_URL,
+  middleware: [authMiddleware],
+  // Renews an expired session silently, so the failed request replays instead of leaving the page
+  tokenRefresher: () => authService.getAccessToken(true),
+});
 export default apiClient;
\ No newline at end of file
@@ -1,4 +1,15 @@
 import { apiClient } from './client';
+import {
+  parseResponse,
+  dataSourceResponseSchema,
+  dataSourcePageResponseSchema,
+  dataSourceConfigListResponseSchema,
+  testConnectionResponseSchema,
+  dataSourceMetricsResponseSchema,
+  bulkImportResponseSchema,
+  bulkActionResponseSchema,
+  tagCountsResponseSchema,
+} from './schemas';
 import { DataSourceConfig } from '../../components/data-sources/ConfigurationForm/types';
 
 export interface DataSource extends DataSourceConfig {
@@ -9,6 +20,13 @@ export interface DataSource extends DataSourceConfig {
   status?: 'active' | 'inactive' | 'error';
 }
 
+export interface RequestOptions {
+  /**
+   * Aborts the request when signalled, e.g. on unmount
+   */
+  signal?: AbortSignal;
+}
+
 export interface TestConnectionRequest {
   protocol: string;
   connectionDetails: Record<string, any>;
@@ -24,24 +42,138 @@ export interface TestConnectionResponse {
   };
 }
 
+export type DataSourceSortField = 'name' | 'createdAt' | 'updatedAt' | 'lastConnectedAt';
+
+export interface DataSourceQuery {
+  /**
+   * Full-text search over name and description
+   */
+  q?: string;
+  protocol?: DataSourceConfig['protocol'];
+  status?: NonNullable<DataSource['status']>;
+  tag?: string;
+  sort?: DataSourceSortField;
+  order?: 'asc' | 'desc';
+  /**
+   * Opaque cursor from a previous page's `nextCursor`
+   */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface DataSourcePage {
+  items: DataSource[];
+  /**
+   * Cursor for the next page, or null on the last page
+   */
+  nextCursor: string | null;
+  /**
+   * Number of data sources matching the query across all pages
+   */
+  total: number;
+}
+
+// Largest page the API serves; used when walking every page
+const MAX_PAGE_SIZE = 100;
+
+// Drops empty filters so they are not sent as `?q=&tag=`
+const toQueryParams = (query: DataSourceQuery): Record<string, string | number> =>
+  Object.entries(query).reduce<Record<string, string | number>>((params, [key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params[key] = value;
+    }
+    return params;
+  }, {});
+
 // Data source CRUD operations
-export const fetchDataSources = async (): Promise<DataSource[]> => {
-  return apiClient.get<DataSource[]>('/data-sources');
+export const fetchDataSources = async (
+  query: DataSourceQuery = {},
+  options: RequestOptions = {}
+): Promise<DataSourcePage> => {
+  const data = await apiClient.get<unknown>('/data-sources', {
+    params: toQueryParams(query),
+    signal: options.signal,
+  });
+  const page = parseResponse<DataSourcePage>(dataSourcePageResponseSchema, data, 'GET /data-sources');
+  return { ...page, nextCursor: page.nextCursor ?? null };
 };
 
-export const fetchDataSourceById = async (id: string): Promise<DataSource> => {
-  return apiClient.get<DataSource>(`/data-sources/${id}`);
+/**
+ * Follows `nextCursor` until every data source matching the query is loaded
+ */
+export const fetchAllDataSources = async (
+  query: Omit<DataSourceQuery, 'cursor' | 'limit'> = {},
+  options: RequestOptions = {}
+): Promise<DataSource[]> => {
+  const items: DataSource[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchDataSources({ ...query, cursor, limit: MAX_PAGE_SIZE }, options);
+    items.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return items;
 };
 
-export const createDataSource = async (data: DataSourceConfig): Promise<DataSource> => {
-  return apiClient.post<DataSource>('/data-sources', data);
+export interface TagCount {
+  tag: string;
+  /**
+   * Number of data sources carrying the tag
+   */
+  count: number;
+}
+
+/**
+ * Every tag in use across the tenant, for the tag facet
+ */
+export const fetchDataSourceTags = async (options: RequestOptions = {}): Promise<TagCount[]> => {
+  const data = await apiClient.get<unknown>('/data-sources/tags', { signal: options.signal });
+  return parseResponse<TagCount[]>(tagCountsResponseSchema, data, 'GET /data-sources/tags');
 };
 
+export const fetchDataSourceById = async (
+  id: string,
+  options: RequestOptions = {}
+): Promise<DataSource> => {
+  const data = await apiClient.get<unknown>(`/data-sources/${id}`, { signal: options.signal });
+  return parseResponse<DataSource>(dataSourceResponseSchema, data, 'GET /data-sources/:id');
+};
+
+export interface CreateDataSourceOptions {
+  /**
+   * Sent as Idempotency-Key. The server applies a create once per key, so a
+   * create retried after a dropped response does not add a second data source.
+   */
+  idempotencyKey?: string;
+}
+
+export const createDataSource = async (
+  data: DataSourceConfig,
+  options: CreateDataSourceOptions = {}
+): Promise<DataSource> => {
+  const config = options.idempotencyKey
+    ? { headers: { 'Idempotency-Key': options.idempotencyKey } }
+    : undefined;
+  const response = await apiClient.post<unknown>('/data-sources', data, config);
+  return parseResponse<DataSource>(dataSourceResponseSchema, response, 'POST /data-sources');
+};
+
+/**
+ * Updates a data source. When `data.version` is set it is sent as If-Match so
+ * the server rejects the write with a ConflictError if someone saved in between.
+ */
 export const updateDataSource = async (
   id: string, 
   data: Partial<DataSourceConfig>
 ): Promise<DataSource> => {
-  return apiClient.patch<DataSource>(`/data-sources/${id}`, data);
+  const { version, ...changes } = data;
+  const config = version !== undefined
+    ? { headers: { 'If-Match': `"${version}"` } }
+    : undefined;
+  const response = await apiClient.patch<unknown>(`/data-sources/${id}`, changes, config);
+  return parseResponse<DataSource>(dataSourceResponseSchema, response, 'PATCH /data-sources/:id');
 };
 
 export const deleteDataSource = async (id: string): Promise<void> => {
@@ -52,16 +184,23 @@ export const deleteDataSource = async (id: string): Promise<void> => {
 export const testDataSourceConnection = async (
   config: TestConnectionRequest
 ): Promise<TestConnectionResponse> => {
-  return apiClient.post<TestConnectionResponse>('/data-sources/test-connection', config);
+  const response = await apiClient.post<unknown>('/data-sources/test-connection', config);
+  return parseResponse<TestConnectionResponse>(
+    testConnectionResponseSchema,
+    response,
+    'POST /data-sources/test-connection'
+  );
 };
 
 // Data source actions
 export const enableDataSource = async (id: string): Promise<DataSource> => {
-  return apiClient.post<DataSource>(`/data-sources/${id}/enable`);
+  const response = await apiClient.post<unknown>(`/data-sources/${id}/enable`);
+  return parseResponse<DataSource>(dataSourceResponseSchema, response, 'POST /data-sources/:id/enable');
 };
 
 export const disableDataSource = async (id: string): Promise<DataSource> => {
-  return apiClient.post<DataSource>(`/data-sources/${id}/disable`);
+  const response = await apiClient.post<unknown>(`/data-sources/${id}/disable`);
+  return parseResponse<DataSource>(dataSourceResponseSchema, response, 'POST /data-sources/:id/disable');
 };
 
 // Data source metrics
@@ -78,8 +217,16 @@ export interface DataSourceMetrics {
   };
 }
 
-export const fetchDataSourceMetrics = async (id: string): Promise<DataSourceMetrics> => {
-  return apiClient.get<DataSourceMetrics>(`/data-sources/${id}/metrics`);
+export const fetchDataSourceMetrics = async (
+  id: string,
+  options: RequestOptions = {}
+): Promise<DataSourceMetrics> => {
+  const data = await apiClient.get<unknown>(`/data-sources/${id}/metrics`, { signal: options.signal });
+  return parseResponse<DataSourceMetrics>(
+    dataSourceMetricsResponseSchema,
+    data,
+    'GET /data-sources/:id/metrics'
+  );
 };
 
 // Bulk operations
@@ -99,9 +246,83 @@ export interface BulkImportResponse {
 export const bulkImportDataSources = async (
   data: BulkImportRequest
 ): Promise<BulkImportResponse> => {
-  return apiClient.post<BulkImportResponse>('/data-sources/bulk-import', data);
+  const response = await apiClient.post<unknown>('/data-sources/bulk-import', data);
+  return parseResponse<BulkImportResponse>(
+    bulkImportResponseSchema,
+    response,
+    'POST /data-sources/bulk-import'
+  );
 };
 
-export const exportDataSources = async (): Promise<DataSourceConfig[]> => {
-  return apiClient.get<DataSourceConfig[]>('/data-sources/export');
+export type BulkAction =
+  | { type: 'enable' }
+  | { type: 'disable' }
+  | { type: 'delete' }
+  | { type: 'tag'; add?: string[]; remove?: string[] }
+  | { type: 'test' };
+
+export interface BulkActionRequest {
+  action: BulkAction;
+  ids: string[];
+}
+
+export interface BulkActionResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  /**
+   * Outcome message, e.g. of a connection test
+   */
+  message?: string;
+  /**
+   * Updated data source for actions that change it
+   */
+  dataSource?: DataSource;
+}
+
+export interface BulkActionResponse {
+  results: BulkActionResult[];
+}
+
+/**
+ * Applies one action to several data sources. Each id succeeds or fails on its own.
+ */
+export const bulkDataSourceAction = async (
+  data: BulkActionRequest
+): Promise<BulkActionResponse> => {
+  const response = await apiClient.post<unknown>('/data-sources/bulk', data);
+  return parseResponse<BulkActionResponse>(
+    bulkActionResponseSchema,
+    response,
+    'POST /data-sources/bulk'
+  );
+};
+
+export interface ExportDataSourcesOptions extends RequestOptions {
+  /**
+   * Export only these data sources
+   */
+  ids?: string[];
+  /**
+   * Export the data sources matching a list query, e.g. the current view
+   */
+  query?: Pick<DataSourceQuery, 'q' | 'protocol' | 'status' | 'tag'>;
+}
+
+export const exportDataSources = async (
+  options: ExportDataSourcesOptions = {}
+): Promise<DataSourceConfig[]> => {
+  const params = {
+    ...toQueryParams(options.query ?? {}),
+    ...(options.ids ? { ids: options.ids.join(',') } : {}),
+  };
+  const data = await apiClient.get<unknown>('/data-sources/export', {
+    params: Object.keys(params).length > 0 ? params : undefined,
+    signal: options.signal,
+  });
+  return parseResponse<DataSourceConfig[]>(
+    dataSourceConfigListResponseSchema,
+    data,
+    'GET /data-sources/export'
+  );
 };
\ No newline at end of file
@@ -0,0 +1,278 @@
+import axios, { AxiosError } from 'axios';
+
+export interface FieldError {
+  /**
+   * Dotted path of the offending field, e.g. `connectionDetails.url`
+   */
+  field: string;
+  message: string;
+  code?: string;
+}
+
+interface ApiErrorOptions {
+  status?: number | null;
+  code?: string;
+  requestId?: string;
+  details?: unknown;
+}
+
+/**
+ * Base class for every failure surfaced by the API client.
+ * Each class names itself with a literal, since minifiers rename the classes
+ * and serialized errors are told apart by name.
+ */
+export class ApiError extends Error {
+  readonly name: string = 'ApiError';
+  readonly status: number | null;
+  readonly code: string;
+  readonly requestId?: string;
+  readonly details?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.status = options.status ?? null;
+    this.code = options.code ?? 'API_ERROR';
+    this.requestId = options.requestId;
+    this.details = options.details;
+  }
+}
+
+/**
+ * The server rejected the payload (400/422), optionally per field
+ */
+export class ValidationError extends ApiError {
+  readonly name = 'ValidationError';
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[], options: ApiErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'VALIDATION_FAILED' });
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  readonly name = 'AuthenticationError';
+}
+
+export class PermissionError extends ApiError {
+  readonly name = 'PermissionError';
+}
+
+export class NotFoundError extends ApiError {
+  readonly name = 'NotFoundError';
+}
+
+export class ServerError extends ApiError {
+  readonly name = 'ServerError';
+}
+
+/**
+ * The resource changed on the server since it was read (409/412).
+ * `current` holds the server's version when the response includes it.
+ */
+export class ConflictError extends ApiError {
+  readonly name = 'ConflictError';
+  readonly current: unknown;
+
+  constructor(message: string, current: unknown, options: ApiErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'CONFLICT' });
+    this.current = current ?? null;
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly name = 'TimeoutError';
+}
+
+/**
+ * No response was received; `offline` tells whether the browser has lost connectivity
+ */
+export class NetworkError extends ApiError {
+  readonly name = 'NetworkError';
+  readonly offline: boolean;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'NETWORK_ERROR' });
+    this.offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+}
+
+/**
+ * The caller aborted the request; this is never shown to the user
+ */
+export class RequestCancelledError extends ApiError {
+  readonly name = 'RequestCancelledError';
+
+  constructor(message = 'Request was cancelled') {
+    super(message, { code: 'REQUEST_CANCELLED' });
+  }
+}
+
+/**
+ * The server answered with a payload that does not match the endpoint's schema
+ */
+export class ContractViolationError extends ApiError {
+  readonly name = 'ContractViolationError';
+  readonly endpoint: string;
+  readonly violations: string[];
+
+  constructor(endpoint: string, violations: string[]) {
+    super(`Unexpected response from ${endpoint}: ${violations[0] ?? 'invalid payload'}`, {
+      code: 'CONTRACT_VIOLATION',
+      details: violations,
+    });
+    this.endpoint = endpoint;
+    this.violations = violations;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+export const isCancelledError = (error: unknown): error is RequestCancelledError =>
+  error instanceof RequestCancelledError;
+
+// Servers report field errors either as a list or as a `{ field: message }` map
+const extractFieldErrors = (data: any): FieldError[] => {
+  const source = data?.errors ?? data?.fieldErrors;
+
+  if (Array.isArray(source)) {
+    return source
+      .filter((item: any) => item && (item.field || item.path))
+      .map((item: any) => ({
+        field: item.field ?? item.path,
+        message: item.message ?? 'Invalid value',
+        code: item.code,
+      }));
+  }
+
+  if (source && typeof source === 'object') {
+    return Object.entries(source).map(([field, message]) => ({
+      field,
+      message: Array.isArray(message) ? String(message[0]) : String(message),
+    }));
+  }
+
+  return [];
+};
+
+/**
+ * Maps a failed axios request onto the ApiError hierarchy
+ */
+export const createApiError = (error: AxiosError): ApiError => {
+  if (axios.isCancel(error)) {
+    return new RequestCancelledError();
+  }
+
+  const response = error.response;
+
+  if (!response) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError('The request timed out. Please try again.', {
+        code: 'TIMEOUT',
+      });
+    }
+    if (error.request) {
+      return new NetworkError('No response from server. Please check your connection.');
+    }
+    return new ApiError(error.message || 'An unexpected error occurred', {
+      code: 'REQUEST_FAILED',
+    });
+  }
+
+  const data = (response.data ?? {}) as any;
+  const options: ApiErrorOptions = {
+    status: response.status,
+    code: data.code,
+    requestId: data.requestId ?? response.headers?.['x-request-id'],
+    details: data.details,
+  };
+  const message = data.message || data.error || 'An error occurred';
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, extractFieldErrors(data), options);
+    case 401:
+      return new AuthenticationError(message, { ...options, code: options.code ?? 'UNAUTHENTICATED' });
+    case 403:
+      return new PermissionError(message, { ...options, code: options.code ?? 'FORBIDDEN' });
+    case 404:
+      return new NotFoundError(message, { ...options, code: options.code ?? 'NOT_FOUND' });
+    case 409:
+    case 412:
+      return new ConflictError(message, data.current ?? data.serverVersion, options);
+    case 408:
+    case 504:
+      return new TimeoutError(message, { ...options, code: options.code ?? 'TIMEOUT' });
+    default:
+      if (response.status >= 500) {
+        return new ServerError(message, { ...options, code: options.code ?? 'SERVER_ERROR' });
+      }
+      return new ApiError(message, options);
+  }
+};
+
+// Thunk error serialization
+//
+// Redux actions must stay serializable, so thunks store ApiErrors as plain
+// objects and callers that need the class rebuild it with deserializeApiError.
+
+export interface SerializedApiError {
+  name: string;
+  message: string;
+  code?: string;
+  status?: number | null;
+  requestId?: string;
+  fieldErrors?: FieldError[];
+  current?: unknown;
+}
+
+export const serializeApiError = (error: unknown): SerializedApiError => {
+  if (error instanceof ApiError) {
+    return {
+      name: error.name,
+      message: error.message,
+      code: error.code,
+      status: error.status,
+      requestId: error.requestId,
+      fieldErrors: error instanceof ValidationError ? error.fieldErrors : undefined,
+      current: error instanceof ConflictError ? error.current : undefined,
+    };
+  }
+  return {
+    name: (error as Error)?.name ?? 'Error',
+    message: (error as Error)?.message ?? String(error),
+  };
+};
+
+export const deserializeApiError = (serialized: SerializedApiError): ApiError => {
+  const options = {
+    status: serialized.status,
+    code: serialized.code,
+    requestId: serialized.requestId,
+  };
+
+  switch (serialized.name) {
+    case 'ValidationError':
+      return new ValidationError(serialized.message, serialized.fieldErrors ?? [], options);
+    case 'ConflictError':
+      return new ConflictError(serialized.message, serialized.current, options);
+    case 'AuthenticationError':
+      return new AuthenticationError(serialized.message, options);
+    case 'PermissionError':
+      return new PermissionError(serialized.message, options);
+    case 'NotFoundError':
+      return new NotFoundError(serialized.message, options);
+    case 'ServerError':
+      return new ServerError(serialized.message, options);
+    case 'TimeoutError':
+      return new TimeoutError(serialized.message, options);
+    case 'NetworkError':
+      return new NetworkError(serialized.message, options);
+    default:
+      return new ApiError(serialized.message, options);
+  }
+};
@@ -0,0 +1,145 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { getAuthToken } from '../auth/tokenService';
+import type { ApiRequestConfig } from './client';
+
+export interface ApiMiddleware {
+  /**
+   * Unique name; registering another middleware with the same name replaces it
+   */
+  name: string;
+
+  /**
+   * Called before every attempt of a request, including retries and replays
+   */
+  onRequest?: (config: ApiRequestConfig) => ApiRequestConfig | Promise<ApiRequestConfig>;
+
+  /**
+   * Called with every successful response, in reverse registration order
+   */
+  onResponse?: (response: AxiosResponse) => AxiosResponse | Promise<AxiosResponse>;
+
+  /**
+   * Observes failed attempts before retry and error mapping take place
+   */
+  onError?: (error: AxiosError) => void | Promise<void>;
+}
+
+const randomHex = (bytes: number): string => {
+  const buffer = new Uint8Array(bytes);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(buffer);
+  } else {
+    buffer.forEach((_, index) => {
+      buffer[index] = Math.floor(Math.random() * 256);
+    });
+  }
+  return Array.from(buffer, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const setHeader = (config: ApiRequestConfig, name: string, value: string): ApiRequestConfig => {
+  config.headers = { ...config.headers, [name]: value } as ApiRequestConfig['headers'];
+  return config;
+};
+
+const hasHeader = (config: ApiRequestConfig, name: string): boolean =>
+  Object.keys(config.headers ?? {}).some(key => key.toLowerCase() === name.toLowerCase());
+
+// Built-in middleware
+
+/**
+ * Sends the stored access token as a bearer token
+ */
+export const authMiddleware: ApiMiddleware = {
+  name: 'auth',
+  onRequest: (config) => {
+    const token = getAuthToken();
+    return token ? setHeader(config, 'Authorization', `Bearer ${token}`) : config;
+  },
+};
+
+/**
+ * Tags every request with a correlation id unless the caller already set one
+ */
+export const correlationIdMiddleware = (header = 'X-Correlation-ID'): ApiMiddleware => ({
+  name: 'correlation-id',
+  onRequest: (config) => {
+    if (hasHeader(config, header)) {
+      return config;
+    }
+    return setHeader(config, header, randomHex(16));
+  },
+});
+
+/**
+ * Propagates a W3C `traceparent` header. Retries of the same request share
+ * the trace id but get a fresh span id.
+ */
+export const tracingMiddleware = (): ApiMiddleware => ({
+  name: 'tracing',
+  onRequest: (config) => {
+    const metadata = (config.metadata = config.metadata ?? {});
+    const traceId = (metadata.traceId as string | undefined) ?? randomHex(16);
+    metadata.traceId = traceId;
+    return setHeader(config, 'traceparent', `00-${traceId}-${randomHex(8)}-01`);
+  },
+});
+
+export interface RequestTiming {
+  method: string;
+  url: string;
+  status: number | null;
+  duration: number;
+}
+
+/**
+ * Measures the latency of every attempt and reports it to `onMeasure`
+ */
+export const latencyMiddleware = (onMeasure: (timing: RequestTiming) => void): ApiMiddleware => {
+  const report = (config: ApiRequestConfig | undefined, status: number | null) => {
+    const startedAt = config?.metadata?.startedAt as number | undefined;
+    if (!config || startedAt === undefined) return;
+
+    onMeasure({
+      method: (config.method || 'get').toUpperCase(),
+      url: config.url || '',
+      status,
+      duration: Date.now() - startedAt,
+    });
+  };
+
+  return {
+    name: 'latency',
+    onRequest: (config) => {
+      config.metadata = { ...config.metadata, startedAt: Date.now() };
+      return config;
+    },
+    onResponse: (response) => {
+      report(response.config as ApiRequestConfig, response.status);
+      return response;
+    },
+    onError: (error) => {
+      report(error.config as ApiRequestConfig | undefined, error.response?.status ?? null);
+    },
+  };
+};
+
+interface RequestLogger {
+  debug: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+}
+
+/**
+ * Logs request outcomes; intended for development builds
+ */
+export const requestLoggingMiddleware = (logger: RequestLogger = console): ApiMiddleware => ({
+  name: 'request-logging',
+  onResponse: (response) => {
+    const { method = 'get', url } = response.config;
+    logger.debug(`[api] ${method.toUpperCase()} ${url} -> ${response.status}`);
+    return response;
+  },
+  onError: (error) => {
+    const { method = 'get', url } = error.config ?? {};
+    logger.warn(`[api] ${method.toUpperCase()} ${url} failed:`, error.response?.status ?? error.message);
+  },
+});
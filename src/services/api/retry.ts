@@ -0,0 +1,180 @@
+import axios, { AxiosError } from 'axios';
+import { RequestCancelledError } from './errors';
+
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the initial request
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the first retry in milliseconds
+   */
+  baseDelay: number;
+
+  /**
+   * Upper bound for a single retry delay in milliseconds
+   */
+  maxDelay: number;
+
+  /**
+   * Multiplier applied to the delay after every failed attempt
+   */
+  backoffFactor: number;
+
+  /**
+   * Randomization applied to the computed delay
+   * - none: use the exponential delay as is
+   * - full: random delay between 0 and the exponential delay
+   * - equal: half the exponential delay plus a random half
+   */
+  jitter: 'none' | 'full' | 'equal';
+
+  /**
+   * HTTP methods that are safe to replay
+   */
+  retryableMethods: string[];
+
+  /**
+   * Response status codes that trigger a retry
+   */
+  retryableStatusCodes: number[];
+
+  /**
+   * Wait for the duration given in a Retry-After header when present
+   */
+  respectRetryAfter: boolean;
+}
+
+/**
+ * Per-request retry overrides, or `false` to disable retries entirely
+ */
+export type RetryOptions = Partial<RetryPolicy> | false;
+
+// Only idempotent reads are retried by default so that mutations such as
+// createDataSource are never replayed without the caller opting in.
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  backoffFactor: 2,
+  jitter: 'full',
+  retryableMethods: ['get', 'head', 'options'],
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+export const resolveRetryPolicy = (
+  options: RetryOptions | undefined,
+  defaults: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryPolicy | null => {
+  if (options === false) {
+    return null;
+  }
+  return { ...defaults, ...options };
+};
+
+/**
+ * Parses a Retry-After header value (delta seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (
+  value: string | undefined | null,
+  now: number = Date.now()
+): number | null => {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+
+  return Math.max(0, date - now);
+};
+
+/**
+ * Computes the backoff delay for the given retry (1 for the first retry)
+ */
+export const computeRetryDelay = (
+  retry: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number => {
+  const exponential = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(policy.backoffFactor, retry - 1)
+  );
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(random() * exponential);
+    case 'equal':
+      return Math.round(exponential / 2 + random() * (exponential / 2));
+    default:
+      return exponential;
+  }
+};
+
+/**
+ * Decides whether a failed request should be retried and how long to wait.
+ *
+ * @param error - The failed request
+ * @param attempt - Number of attempts made so far, including the one that failed
+ * @param policy - Resolved retry policy, or null when retries are disabled
+ * @returns Delay in milliseconds before the next attempt, or null to give up
+ */
+export const getRetryDelay = (
+  error: AxiosError,
+  attempt: number,
+  policy: RetryPolicy | null
+): number | null => {
+  if (!policy || attempt >= policy.maxAttempts) return null;
+  if (axios.isCancel(error)) return null;
+
+  const method = (error.config?.method || 'get').toLowerCase();
+  if (!policy.retryableMethods.map(m => m.toLowerCase()).includes(method)) {
+    return null;
+  }
+
+  // Network failures and timeouts have no response and are always transient
+  if (!error.response) {
+    return computeRetryDelay(attempt, policy);
+  }
+
+  if (!policy.retryableStatusCodes.includes(error.response.status)) {
+    return null;
+  }
+
+  if (policy.respectRetryAfter) {
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      // The server asked for a longer pause than we are willing to wait
+      return retryAfter <= policy.maxDelay ? retryAfter : null;
+    }
+  }
+
+  return computeRetryDelay(attempt, policy);
+};
+
+/**
+ * Waits `ms` milliseconds, or rejects with RequestCancelledError as soon as
+ * `signal` aborts, so a request cancelled during backoff does not wait it out
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new RequestCancelledError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,156 @@
+import * as yup from 'yup';
+import { isValid, parseISO } from 'date-fns';
+import { ContractViolationError } from './errors';
+import { isRegisteredProtocol } from '../../protocols/registry';
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+const isoTimestamp = () =>
+  yup
+    .string()
+    .test(
+      'iso-timestamp',
+      '${path} must be an ISO 8601 timestamp',
+      value => value == null || (ISO_TIMESTAMP.test(value) && isValid(parseISO(value)))
+    );
+
+// Response schemas
+export const dataSourceConfigResponseSchema = yup.object({
+  name: yup.string().required(),
+  protocol: yup
+    .string()
+    .test(
+      'registered-protocol',
+      '${path} must be a registered protocol',
+      value => value == null || isRegisteredProtocol(value)
+    )
+    .required(),
+  connectionDetails: yup.object().required(),
+  description: yup.string().nullable(),
+  tags: yup.array(yup.string().required()).nullable(),
+  enabled: yup.boolean(),
+  version: yup.number().integer(),
+});
+
+export const dataSourceResponseSchema = dataSourceConfigResponseSchema.shape({
+  id: yup.string().required(),
+  createdAt: isoTimestamp().required(),
+  updatedAt: isoTimestamp().required(),
+  lastConnectedAt: isoTimestamp().nullable(),
+  status: yup.string().oneOf(['active', 'inactive', 'error']),
+});
+
+export const dataSourceListResponseSchema = yup.array(dataSourceResponseSchema).required();
+
+export const dataSourcePageResponseSchema = yup.object({
+  items: dataSourceListResponseSchema,
+  nextCursor: yup.string().nullable(),
+  total: yup.number().integer().min(0).required(),
+});
+
+export const dataSourceConfigListResponseSchema = yup.array(dataSourceConfigResponseSchema).required();
+
+export const testConnectionResponseSchema = yup.object({
+  success: yup.boolean().required(),
+  message: yup.string().required(),
+  details: yup
+    .object({
+      responseTime: yup.number().required(),
+      statusCode: yup.number(),
+      error: yup.string(),
+    })
+    .default(undefined),
+});
+
+export const dataSourceMetricsResponseSchema = yup.object({
+  dataSourceId: yup.string().required(),
+  messagesReceived: yup.number().required(),
+  messagesProcessed: yup.number().required(),
+  errorCount: yup.number().required(),
+  averageResponseTime: yup.number().required(),
+  uptime: yup.number().required(),
+  lastError: yup
+    .object({
+      message: yup.string().required(),
+      timestamp: isoTimestamp().required(),
+    })
+    .default(undefined),
+});
+
+export const bulkImportResponseSchema = yup.object({
+  imported: yup.number().required(),
+  failed: yup.number().required(),
+  errors: yup
+    .array(
+      yup.object({
+        index: yup.number().required(),
+        error: yup.string().required(),
+      })
+    )
+    .required(),
+});
+
+export const tagCountsResponseSchema = yup
+  .array(
+    yup.object({
+      tag: yup.string().required(),
+      count: yup.number().integer().min(0).required(),
+    })
+  )
+  .required();
+
+export const bulkActionResponseSchema = yup.object({
+  results: yup
+    .array(
+      yup.object({
+        id: yup.string().required(),
+        success: yup.boolean().required(),
+        error: yup.string(),
+        message: yup.string(),
+        dataSource: dataSourceResponseSchema.default(undefined),
+      })
+    )
+    .required(),
+});
+
+// Contract violation reporting
+type ContractViolationListener = (error: ContractViolationError, payload: unknown) => void;
+
+const listeners = new Set<ContractViolationListener>();
+
+/**
+ * Subscribes to contract violations, e.g. to forward them to error monitoring
+ */
+export const onContractViolation = (listener: ContractViolationListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Validates a response payload against its schema without coercing values.
+ *
+ * @param schema - Runtime schema declared for the endpoint
+ * @param payload - Raw response body
+ * @param endpoint - Endpoint description used in error messages, e.g. `GET /data-sources`
+ * @throws ContractViolationError when the payload does not match
+ */
+export const parseResponse = <T>(schema: yup.AnySchema, payload: unknown, endpoint: string): T => {
+  try {
+    schema.validateSync(payload, { strict: true, abortEarly: false });
+    return payload as T;
+  } catch (error) {
+    if (!(error instanceof yup.ValidationError)) {
+      throw error;
+    }
+
+    const violation = new ContractViolationError(
+      endpoint,
+      error.errors.length > 0 ? error.errors : [error.message]
+    );
+    console.error(`[api] Contract violation in ${endpoint}:`, violation.violations);
+    listeners.forEach(listener => listener(violation, payload));
+    throw violation;
+  }
+};
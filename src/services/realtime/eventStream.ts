@@ -0,0 +1,190 @@
+/**
+ * Client for `text/event-stream` (Server-Sent Events) upstreams. It reads the stream
+ * with fetch instead of `EventSource`, because `EventSource` can neither send custom
+ * headers nor start from a stored Last-Event-ID.
+ */
+
+export interface ServerSentEvent {
+  /**
+   * Event type from the `event:` field, `message` when there is none
+   */
+  type: string;
+  data: string;
+  /**
+   * Last event ID seen on the stream when this event was dispatched
+   */
+  lastEventId: string;
+}
+
+export interface EventStreamParserHandlers {
+  onEvent: (event: ServerSentEvent) => void;
+  /**
+   * Reconnection delay in milliseconds sent by the server in a `retry:` field
+   */
+  onRetry?: (delay: number) => void;
+  /**
+   * Last event ID to resume after, whenever a block changes it. Blocks without
+   * data, such as id-only heartbeats, set it too although they dispatch no event.
+   */
+  onId?: (lastEventId: string) => void;
+}
+
+/**
+ * Incremental parser following the HTML event stream format. Chunks may split
+ * lines anywhere; an event is dispatched at the blank line that ends it.
+ */
+export const createEventStreamParser = ({ onEvent, onRetry, onId }: EventStreamParserHandlers) => {
+  let buffer = '';
+  let started = false;
+  // A CR at the end of a chunk may be the first half of a CRLF
+  let skipLineFeed = false;
+  let data = '';
+  let eventType = '';
+  let lastEventId = '';
+  let reportedId = '';
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (lastEventId !== reportedId) {
+        reportedId = lastEventId;
+        onId?.(lastEventId);
+      }
+      if (data) {
+        onEvent({ type: eventType || 'message', data: data.slice(0, -1), lastEventId });
+      }
+      data = '';
+      eventType = '';
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        data += `${value}\n`;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          onRetry?.(parseInt(value, 10));
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  };
+
+  return {
+    push: (chunk: string) => {
+      if (!started && chunk) {
+        started = true;
+        chunk = chunk.replace(/^\uFEFF/, '');
+      }
+      buffer += chunk;
+
+      let start = 0;
+      for (let index = 0; index < buffer.length; index += 1) {
+        const char = buffer[index];
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (char === '\n') {
+            start = index + 1;
+            continue;
+          }
+        }
+        if (char === '\r' || char === '\n') {
+          processLine(buffer.slice(start, index));
+          start = index + 1;
+          skipLineFeed = char === '\r';
+        }
+      }
+      buffer = buffer.slice(start);
+    },
+  };
+};
+
+export interface OpenEventStreamOptions extends EventStreamParserHandlers {
+  url: string;
+  headers?: Record<string, string>;
+  /**
+   * Sent as Last-Event-ID so the server resumes after that event
+   */
+  lastEventId?: string;
+  signal?: AbortSignal;
+  onOpen?: (response: Response) => void;
+}
+
+/**
+ * Connects to an event stream and reads it until it ends. Resolves with false when
+ * the server answered 204 No Content, which tells clients not to reconnect.
+ * Rejects when the request fails or the response is not an event stream.
+ */
+export const openEventStream = async ({
+  url,
+  headers,
+  lastEventId,
+  signal,
+  onOpen,
+  onEvent,
+  onRetry,
+  onId,
+}: OpenEventStreamOptions): Promise<boolean> => {
+  const response = await fetch(url, {
+    headers: {
+      Accept: 'text/event-stream',
+      ...headers,
+      ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+    },
+    cache: 'no-store',
+    signal,
+  });
+
+  if (response.status === 204) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Event stream request failed with status ${response.status}`);
+  }
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (!contentType.includes('text/event-stream')) {
+    throw new Error(`Expected text/event-stream but the server sent ${contentType || 'no content type'}`);
+  }
+  if (!response.body) {
+    throw new Error('Event stream response has no body');
+  }
+
+  onOpen?.(response);
+
+  const parser = createEventStreamParser({ onEvent, onRetry, onId });
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  return true;
+};
+
+/**
+ * Parses JSON event data, falling back to the raw text
+ */
+export const parseEventData = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
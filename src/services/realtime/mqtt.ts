@@ -0,0 +1,258 @@
+import type { TestConnectionResponse } from '../api/dataSources';
+
+/**
+ * Just enough MQTT 3.1.1 over WebSocket to test a broker from the browser: connect,
+ * subscribe to the configured topic filters and disconnect. Brokers serve this on
+ * a WebSocket listener, e.g. Mosquitto with `listener 9001` and `protocol websockets`.
+ */
+
+export type MqttQos = 0 | 1 | 2;
+
+export interface MqttLastWill {
+  topic: string;
+  payload?: string;
+  qos?: MqttQos;
+  retain?: boolean;
+}
+
+export interface MqttConnectOptions {
+  clientId?: string;
+  cleanSession?: boolean;
+  /**
+   * Seconds
+   */
+  keepAlive?: number;
+  username?: string;
+  password?: string;
+  lastWill?: MqttLastWill | null;
+}
+
+export interface MqttTestOptions extends MqttConnectOptions {
+  /**
+   * MQTT over WebSocket endpoint, e.g. `ws://localhost:9001`
+   */
+  url: string;
+  topics: string[];
+  qos?: MqttQos;
+  /**
+   * Milliseconds to wait for the broker
+   */
+  timeout?: number;
+}
+
+const PACKET_CONNECT = 1;
+const PACKET_CONNACK = 2;
+const PACKET_SUBSCRIBE = 8;
+const PACKET_SUBACK = 9;
+const PACKET_DISCONNECT = 14;
+
+const SUBSCRIPTION_FAILURE = 0x80;
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'the broker does not support MQTT 3.1.1',
+  2: 'the client ID was rejected',
+  3: 'the MQTT service is unavailable',
+  4: 'bad username or password',
+  5: 'not authorized',
+};
+
+const encodeRemainingLength = (length: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+};
+
+const utf8 = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+// Strings and binary data are prefixed with their length as two bytes
+const encodeBytes = (bytes: Uint8Array): number[] =>
+  [bytes.length >> 8, bytes.length & 0xff, ...Array.from(bytes)];
+
+const encodeString = (value: string): number[] => encodeBytes(utf8(value));
+
+const encodePacket = (type: number, flags: number, body: number[]): Uint8Array =>
+  Uint8Array.from([(type << 4) | flags, ...encodeRemainingLength(body.length), ...body]);
+
+export const encodeConnect = ({
+  clientId = '',
+  cleanSession = true,
+  keepAlive = 60,
+  username,
+  password,
+  lastWill,
+}: MqttConnectOptions): Uint8Array => {
+  let flags = 0;
+  if (cleanSession) flags |= 0x02;
+  if (lastWill) {
+    flags |= 0x04 | ((lastWill.qos ?? 0) << 3);
+    if (lastWill.retain) flags |= 0x20;
+  }
+  // MQTT 3.1.1 only allows a password together with a username
+  if (username) {
+    flags |= 0x80;
+    if (password) flags |= 0x40;
+  }
+
+  const body = [
+    ...encodeString('MQTT'),
+    4, // Protocol level 3.1.1
+    flags,
+    keepAlive >> 8,
+    keepAlive & 0xff,
+    ...encodeString(clientId),
+  ];
+  if (lastWill) {
+    body.push(...encodeString(lastWill.topic), ...encodeBytes(utf8(lastWill.payload ?? '')));
+  }
+  if (username) {
+    body.push(...encodeString(username));
+    if (password) body.push(...encodeBytes(utf8(password)));
+  }
+
+  return encodePacket(PACKET_CONNECT, 0, body);
+};
+
+export const encodeSubscribe = (packetId: number, topics: string[], qos: MqttQos): Uint8Array =>
+  encodePacket(PACKET_SUBSCRIBE, 0x02, [
+    packetId >> 8,
+    packetId & 0xff,
+    ...topics.flatMap(topic => [...encodeString(topic), qos]),
+  ]);
+
+export const encodeDisconnect = (): Uint8Array => encodePacket(PACKET_DISCONNECT, 0, []);
+
+export interface MqttPacket {
+  type: number;
+  flags: number;
+  body: Uint8Array;
+}
+
+/**
+ * Splits received bytes into packets. A WebSocket message may hold part of a
+ * packet or several packets, so bytes are buffered until a packet is complete.
+ */
+export const createMqttPacketReader = (onPacket: (packet: MqttPacket) => void) => {
+  let buffer = new Uint8Array(0);
+
+  return {
+    push: (chunk: Uint8Array) => {
+      const joined = new Uint8Array(buffer.length + chunk.length);
+      joined.set(buffer);
+      joined.set(chunk, buffer.length);
+      buffer = joined;
+
+      for (;;) {
+        let length = 0;
+        let multiplier = 1;
+        let offset = 1;
+        let complete = false;
+        while (offset < buffer.length && offset <= 4) {
+          const byte = buffer[offset];
+          length += (byte & 0x7f) * multiplier;
+          multiplier *= 128;
+          offset += 1;
+          if ((byte & 0x80) === 0) {
+            complete = true;
+            break;
+          }
+        }
+        if (!complete || buffer.length < offset + length) return;
+
+        onPacket({
+          type: buffer[0] >> 4,
+          flags: buffer[0] & 0x0f,
+          body: buffer.slice(offset, offset + length),
+        });
+        buffer = buffer.slice(offset + length);
+      }
+    },
+  };
+};
+
+/**
+ * Connects to a broker over WebSocket and subscribes to the topic filters.
+ * Never rejects; failures are reported in the result like server-side tests.
+ */
+export const testMqttConnection = ({
+  url,
+  topics,
+  qos = 0,
+  timeout = 10000,
+  ...connectOptions
+}: MqttTestOptions): Promise<TestConnectionResponse> =>
+  new Promise(resolve => {
+    const startedAt = Date.now();
+    let socket: WebSocket;
+    let settled = false;
+
+    const finish = (success: boolean, message: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      // Also abandon sockets still connecting, e.g. when the broker never answers
+      if (socket.readyState !== WebSocket.CLOSED) {
+        if (success && socket.readyState === WebSocket.OPEN) socket.send(encodeDisconnect());
+        socket.close();
+      }
+      resolve({
+        success,
+        message,
+        details: {
+          responseTime: Date.now() - startedAt,
+          ...(success ? {} : { error: message }),
+        },
+      });
+    };
+
+    const timer = setTimeout(() => finish(false, `No response from ${url} within ${timeout / 1000}s`), timeout);
+
+    try {
+      socket = new WebSocket(url, ['mqtt']);
+    } catch (error) {
+      clearTimeout(timer);
+      resolve({
+        success: false,
+        message: `Cannot connect to ${url}: ${(error as Error).message}`,
+        details: { responseTime: 0, error: (error as Error).message },
+      });
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+
+    const packetId = 1;
+    const reader = createMqttPacketReader(packet => {
+      if (packet.type === PACKET_CONNACK) {
+        const returnCode = packet.body[1];
+        if (returnCode !== 0) {
+          finish(false, `Broker refused the connection: ${CONNACK_ERRORS[returnCode] ?? `code ${returnCode}`}`);
+        } else if (topics.length === 0) {
+          finish(true, `Connected to ${url}`);
+        } else {
+          socket.send(encodeSubscribe(packetId, topics, qos));
+        }
+      } else if (packet.type === PACKET_SUBACK) {
+        const granted = Array.from(packet.body.slice(2));
+        const rejected = topics.filter((_, index) => granted[index] === SUBSCRIPTION_FAILURE);
+        if (rejected.length > 0) {
+          finish(false, `Broker rejected the subscription to ${rejected.join(', ')}`);
+        } else {
+          const filters = `${topics.length} topic filter${topics.length === 1 ? '' : 's'}`;
+          finish(true, `Connected to ${url} and subscribed to ${filters} (granted QoS ${granted.join(', ')})`);
+        }
+      }
+    });
+
+    socket.onopen = () => {
+      // The test may have timed out while the socket was connecting
+      if (settled) return;
+      socket.send(encodeConnect(connectOptions));
+    };
+    socket.onmessage = event => reader.push(new Uint8Array(event.data as ArrayBuffer));
+    socket.onerror = () => finish(false, `Cannot connect to ${url}`);
+    socket.onclose = () => finish(false, `${url} closed the connection`);
+  });
@@ -0,0 +1,326 @@
+import * as dataSourcesApi from '../api/dataSources';
+import { DataSource, RequestOptions } from '../api/dataSources';
+import { DataSourceConfig } from '../../components/data-sources/ConfigurationForm/types';
+import { validateDataSourceConfig, ConfigValidationError } from '../../protocols';
+import { diffObjects, FieldChange } from '../../utils/diff';
+import { isSecretKey, keepCurrentSecrets } from '../../utils/dataSourceExport';
+
+/**
+ * Config-as-code sync: compares a desired set of data source definitions (e.g. a
+ * file kept in git) with what the server has, and applies the difference.
+ *
+ * Data sources are matched by name. Values holding a redacted secret or a
+ * `${secret:...}` reference, as written by the export, keep the server's value.
+ *
+ * This module only depends on the API layer so it can run in the browser and
+ * from Node (see `scripts/sync-data-sources.ts`).
+ */
+
+export type SyncChange =
+  | { type: 'create'; name: string; config: DataSourceConfig }
+  | {
+    type: 'update';
+    name: string;
+    id: string;
+    current: DataSource;
+    config: DataSourceConfig;
+    changes: FieldChange[];
+  }
+  | { type: 'delete'; name: string; id: string; current: DataSource };
+
+export interface SyncPlanError {
+  /**
+   * Position of the definition in the desired set
+   */
+  index: number;
+  name?: string;
+  errors: ConfigValidationError[];
+}
+
+export interface SyncPlan {
+  /**
+   * Changes in the order they are applied: creates, updates, then deletes
+   */
+  changes: SyncChange[];
+  /**
+   * Names of data sources that already match their definition
+   */
+  unchanged: string[];
+  /**
+   * Definitions that failed validation; a plan with errors cannot be applied
+   */
+  errors: SyncPlanError[];
+}
+
+export interface SyncPlanOptions {
+  /**
+   * Delete data sources that are missing from the desired set
+   * @default false
+   */
+  prune?: boolean;
+}
+
+export type SyncResultStatus = 'applied' | 'failed' | 'rolled-back' | 'rollback-failed' | 'skipped';
+
+export interface SyncResult {
+  change: SyncChange;
+  status: SyncResultStatus;
+  error?: string;
+}
+
+export interface SyncReport {
+  /**
+   * `applied` when every change went through. Otherwise the changes made so far
+   * were undone (`rolled-back`), or undoing some of them failed too (`rollback-failed`).
+   */
+  status: 'applied' | 'rolled-back' | 'rollback-failed';
+  results: SyncResult[];
+}
+
+const CHANGE_ORDER: Record<SyncChange['type'], number> = { create: 0, update: 1, delete: 2 };
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// Names invalid definitions in the plan when they have a usable name at all
+const getDefinitionName = (definition: unknown): string | undefined => {
+  if (typeof definition !== 'object' || definition === null) return undefined;
+  const { name } = definition as { name?: unknown };
+  return typeof name === 'string' ? name : undefined;
+};
+
+/**
+ * The fields sync manages, with optional ones filled in so that leaving a field
+ * out of a definition compares equal to its default
+ */
+const toManagedConfig = (config: DataSourceConfig): DataSourceConfig => ({
+  name: config.name,
+  protocol: config.protocol,
+  description: config.description ?? '',
+  tags: config.tags ?? [],
+  enabled: config.enabled ?? true,
+  connectionDetails: config.connectionDetails ?? {},
+});
+
+/**
+ * Works out the changes that turn `current` into `desired`, without calling the API
+ */
+export const planDataSourceSync = (
+  desired: unknown[],
+  current: DataSource[],
+  options: SyncPlanOptions = {}
+): SyncPlan => {
+  const { prune = false } = options;
+  const currentByName = new Map(current.map(source => [normalizeName(source.name), source]));
+  const matched = new Set<string>();
+  const plan: SyncPlan = { changes: [], unchanged: [], errors: [] };
+
+  desired.forEach((definition, index) => {
+    const { value, errors } = validateDataSourceConfig(definition);
+    if (!value) {
+      plan.errors.push({ index, name: getDefinitionName(definition), errors });
+      return;
+    }
+
+    const key = normalizeName(value.name);
+    if (matched.has(key) || plan.changes.some(change => normalizeName(change.name) === key)) {
+      plan.errors.push({
+        index,
+        name: value.name,
+        errors: [{ path: 'name', message: 'Name appears more than once' }],
+      });
+      return;
+    }
+
+    const existing = currentByName.get(key);
+    const unresolved: string[] = [];
+    const config = toManagedConfig({
+      ...(value as DataSourceConfig),
+      connectionDetails: keepCurrentSecrets(
+        value.connectionDetails,
+        existing?.connectionDetails,
+        'connectionDetails',
+        unresolved
+      ) as Record<string, any>,
+    });
+
+    if (unresolved.length > 0) {
+      plan.errors.push({
+        index,
+        name: value.name,
+        errors: unresolved.map(path => ({ path, message: 'Secret placeholder has no current value to keep' })),
+      });
+      return;
+    }
+
+    if (!existing) {
+      plan.changes.push({ type: 'create', name: config.name, config });
+      return;
+    }
+
+    matched.add(key);
+    const changes = diffObjects(
+      toManagedConfig(existing) as unknown as Record<string, unknown>,
+      config as unknown as Record<string, unknown>
+    );
+    if (changes.length === 0) {
+      plan.unchanged.push(existing.name);
+    } else {
+      plan.changes.push({ type: 'update', name: config.name, id: existing.id, current: existing, config, changes });
+    }
+  });
+
+  if (prune) {
+    current
+      .filter(source => !matched.has(normalizeName(source.name)))
+      .forEach(source => {
+        plan.changes.push({ type: 'delete', name: source.name, id: source.id, current: source });
+      });
+  }
+
+  plan.changes.sort((a, b) =>
+    CHANGE_ORDER[a.type] - CHANGE_ORDER[b.type] || a.name.localeCompare(b.name)
+  );
+  return plan;
+};
+
+/**
+ * Loads every data source from the server and plans the sync against them
+ */
+export const fetchSyncPlan = async (
+  desired: unknown[],
+  options: SyncPlanOptions & RequestOptions = {}
+): Promise<SyncPlan> => {
+  const current = await dataSourcesApi.fetchAllDataSources({}, { signal: options.signal });
+  return planDataSourceSync(desired, current, options);
+};
+
+/**
+ * Applies a change and returns how to undo it
+ */
+const applyChange = async (change: SyncChange): Promise<() => Promise<unknown>> => {
+  switch (change.type) {
+    case 'create': {
+      const created = await dataSourcesApi.createDataSource(change.config);
+      return () => dataSourcesApi.deleteDataSource(created.id);
+    }
+    case 'update': {
+      // If-Match on the version we planned against, so concurrent edits are not overwritten
+      const updated = await dataSourcesApi.updateDataSource(change.id, {
+        ...change.config,
+        version: change.current.version,
+      });
+      return () => dataSourcesApi.updateDataSource(change.id, {
+        ...toManagedConfig(change.current),
+        version: updated.version,
+      });
+    }
+    case 'delete':
+      await dataSourcesApi.deleteDataSource(change.id);
+      // The server assigns a new id to the recreated data source
+      return () => dataSourcesApi.createDataSource(toManagedConfig(change.current));
+  }
+};
+
+/**
+ * Applies a plan as a unit. Changes run one at a time in plan order; when one
+ * fails, every change applied before it is undone in reverse order.
+ */
+export const applySyncPlan = async (
+  plan: SyncPlan,
+  options: { onProgress?: (result: SyncResult) => void } = {}
+): Promise<SyncReport> => {
+  if (plan.errors.length > 0) {
+    throw new Error('The plan has invalid data sources and cannot be applied');
+  }
+
+  const results: SyncResult[] = plan.changes.map(change => ({ change, status: 'skipped' }));
+  const undo: Array<{ result: SyncResult; revert: () => Promise<unknown> }> = [];
+  const report = (result: SyncResult, status: SyncResultStatus, error?: string) => {
+    result.status = status;
+    result.error = error;
+    options.onProgress?.(result);
+  };
+
+  for (const result of results) {
+    try {
+      const revert = await applyChange(result.change);
+      undo.push({ result, revert });
+      report(result, 'applied');
+    } catch (error) {
+      report(result, 'failed', (error as Error).message);
+
+      let rollbackFailed = false;
+      for (const { result: applied, revert } of undo.reverse()) {
+        try {
+          await revert();
+          report(applied, 'rolled-back');
+        } catch (rollbackError) {
+          rollbackFailed = true;
+          report(applied, 'rollback-failed', (rollbackError as Error).message);
+        }
+      }
+      return { status: rollbackFailed ? 'rollback-failed' : 'rolled-back', results };
+    }
+  }
+
+  return { status: 'applied', results };
+};
+
+/**
+ * Formats a changed value for display, hiding credentials so plans can be logged
+ */
+export const formatChangeValue = (path: string, value: unknown): string => {
+  if (value === undefined) return '(unset)';
+  if (path.split('.').some(isSecretKey)) return '(sensitive)';
+  return JSON.stringify(value);
+};
+
+/**
+ * Renders a plan as text, e.g. for the sync script
+ */
+export const formatSyncPlan = (plan: SyncPlan): string => {
+  const lines: string[] = [];
+
+  plan.errors.forEach(({ index, name, errors }) => {
+    lines.push(`! invalid #${index + 1}${name ? ` ${name}` : ''}`);
+    errors.forEach(error => lines.push(`    ${error.path || 'definition'}: ${error.message}`));
+  });
+
+  plan.changes.forEach(change => {
+    switch (change.type) {
+      case 'create':
+        lines.push(`+ create ${change.name} (${change.config.protocol})`);
+        break;
+      case 'update':
+        lines.push(`~ update ${change.name}`);
+        change.changes.forEach(({ path, before, after }) =>
+          lines.push(`    ${path}: ${formatChangeValue(path, before)} -> ${formatChangeValue(path, after)}`)
+        );
+        break;
+      case 'delete':
+        lines.push(`- delete ${change.name}`);
+        break;
+    }
+  });
+
+  const count = (type: SyncChange['type']) => plan.changes.filter(change => change.type === type).length;
+  lines.push(
+    `Plan: ${count('create')} to create, ${count('update')} to update, ` +
+    `${count('delete')} to delete, ${plan.unchanged.length} unchanged.`
+  );
+  return lines.join('\n');
+};
+
+export const formatSyncReport = (report: SyncReport): string => {
+  const lines = report.results.map(({ change, status, error }) =>
+    `${status.padEnd(15)} ${change.type} ${change.name}${error ? `: ${error}` : ''}`
+  );
+  lines.push(
+    report.status === 'applied'
+      ? `Applied ${report.results.length} changes.`
+      : report.status === 'rolled-back'
+        ? 'Apply failed; every change made was rolled back.'
+        : 'Apply failed and some changes could not be rolled back. Review the data sources listed above.'
+  );
+  return lines.join('\n');
+};
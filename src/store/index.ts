@@ -8,45 +8,63 @@ import authReducer from './slices/authSlice';
 import dataSourcesReducer from './slices/dataSourcesSlice';
 import uiReducer from './slices/uiSlice';
 import realtimeReducer from './slices/realtimeSlice';
+import outboxReducer from './slices/outboxSlice';
+import savedViewsReducer from './slices/savedViewsSlice';
+import templatesReducer from './slices/templatesSlice';
 
 // Import middleware
 import { apiMiddleware } from './middleware/apiMiddleware';
 import { websocketMiddleware } from './middleware/websocketMiddleware';
 import { loggerMiddleware } from './middleware/loggerMiddleware';
 
+// Offline mutations are persisted without the replaying flag, so a replay cut
+// short by closing the app does not block the next one
+const outboxPersistConfig = {
+  key: 'outbox',
+  storage,
+  blacklist: ['replaying'],
+};
+
 // Root reducer
 const rootReducer = combineReducers({
   auth: authReducer,
   dataSources: dataSourcesReducer,
   ui: uiReducer,
   realtime: realtimeReducer,
+  outbox: persistReducer(outboxPersistConfig, outboxReducer),
+  savedViews: savedViewsReducer,
+  templates: templatesReducer,
 });
 
 // Persist configuration
 const persistConfig = {
   key: 'root',
   storage,
-  whitelist: ['auth', 'ui'], // Only persist auth and ui state
+  whitelist: ['auth', 'ui', 'savedViews', 'templates'], // Persist auth, ui, saved views and templates
   blacklist: ['realtime', 'dataSources'], // Don't persist real-time data
 };
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
 
 // Configure store
-export const store = configureStore({
-  reducer: persistedReducer,
-  middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware({
-      serializableCheck: {
-        ignoredActions: ['persist/PERSIST', 'persist/REHYDRATE'],
-      },
-    }).concat(
-      apiMiddleware,
-      websocketMiddleware,
-      process.env.NODE_ENV === 'development' ? loggerMiddleware : []
-    ),
-  devTools: process.env.NODE_ENV !== 'production',
-});
+export const setupStore = (preloadedState?: Partial<ReturnType<typeof rootReducer>>) =>
+  configureStore({
+    reducer: persistedReducer,
+    preloadedState: preloadedState as ReturnType<typeof persistedReducer> | undefined,
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: {
+          ignoredActions: ['persist/PERSIST', 'persist/REHYDRATE'],
+        },
+      }).concat(
+        apiMiddleware,
+        websocketMiddleware,
+        process.env.NODE_ENV === 'development' ? loggerMiddleware : []
+      ),
+    devTools: process.env.NODE_ENV !== 'production',
+  });
+
+export const store = setupStore();
 
 export const persistor = persistStore(store);
 
@@ -1,134 +1,648 @@
-import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
-import { DataSource } from '../../services/api/dataSources';
+import {
+  createSlice,
+  PayloadAction,
+  createAsyncThunk,
+  createEntityAdapter,
+  createSelector,
+  EntityState,
+} from '@reduxjs/toolkit';
+import {
+  DataSource,
+  DataSourcePage,
+  DataSourceQuery,
+  BulkAction,
+  BulkActionResult,
+  TagCount,
+} from '../../services/api/dataSources';
 import * as dataSourcesApi from '../../services/api/dataSources';
+import { DataSourceConfig } from '../../components/data-sources/ConfigurationForm/types';
+import { serializeApiError, SerializedApiError } from '../../services/api/errors';
+import { ImportPlan } from '../../utils/dataSourceImport';
+import { findSortedIndex, matchesDataSourceQuery } from '../../utils/dataSourceQuery';
+import { runOrEnqueue, createLocalId, QUEUED_OFFLINE } from './outboxSlice';
 
-interface DataSourcesState {
-  items: DataSource[];
+// Data is considered fresh for this long after a successful fetch
+export const DATA_SOURCES_STALE_TIME = 5 * 60 * 1000; // 5 minutes
+
+export const DATA_SOURCES_PAGE_SIZE = 24;
+
+// Bulk actions are sent in batches so progress can be reported as they complete
+export const BULK_BATCH_SIZE = 10;
+
+const dataSourcesAdapter = createEntityAdapter<DataSource>();
+
+export type DataSourceMutationKind = 'create' | 'update' | 'delete' | 'setEnabled';
+
+// Snapshot taken before an optimistic change so it can be undone
+interface MutationSnapshot {
+  kind: DataSourceMutationKind;
+  id: string;
+  entity: DataSource | null;
+  index: number;
+}
+
+// The server-filtered, paginated list shown on the Data Sources page. It holds
+// ids only; the entities live in the shared normalized cache.
+interface DataSourceListState {
+  query: DataSourceQuery;
+  ids: string[];
+  nextCursor: string | null;
+  total: number;
+  loading: boolean;
+  loadingMore: boolean;
+  error: SerializedApiError | null;
+  requestId: string | null;
+  lastFetch: number | null;
+}
+
+export type BulkItemStatus = 'pending' | 'success' | 'failed';
+
+export interface BulkItemState {
+  status: BulkItemStatus;
+  error?: string;
+  message?: string;
+}
+
+interface BulkOperationState {
+  action: BulkAction | null;
+  items: Record<string, BulkItemState>;
+  running: boolean;
+}
+
+interface DataSourcesState extends EntityState<DataSource> {
   selectedId: string | null;
   loading: boolean;
-  error: string | null;
+  error: SerializedApiError | null;
+  mutationError: string | null;
   lastFetch: number | null;
+  currentRequestId: string | null;
+  pendingMutations: Record<string, MutationSnapshot>;
+  list: DataSourceListState;
+  bulk: BulkOperationState;
+  tagCounts: TagCount[];
 }
 
-const initialState: DataSourcesState = {
-  items: [],
+const initialState: DataSourcesState = dataSourcesAdapter.getInitialState({
   selectedId: null,
   loading: false,
   error: null,
+  mutationError: null,
   lastFetch: null,
+  currentRequestId: null,
+  pendingMutations: {},
+  list: {
+    query: {},
+    ids: [],
+    nextCursor: null,
+    total: 0,
+    loading: false,
+    loadingMore: false,
+    error: null,
+    requestId: null,
+    lastFetch: null,
+  },
+  bulk: {
+    action: null,
+    items: {},
+    running: false,
+  },
+  tagCounts: [],
+});
+
+type SliceState = { dataSources: DataSourcesState };
+
+export interface MutationRejection {
+  queued: boolean;
+}
+
+// Mutations keep ApiError details (field errors, conflicting version) in the action
+type MutationThunkConfig = {
+  rejectValue: MutationRejection;
+  serializedErrorType: SerializedApiError;
 };
 
 // Async thunks
-export const fetchDataSourcesThunk = createAsyncThunk(
+export const fetchDataSourcesThunk = createAsyncThunk<
+  DataSource[],
+  { force?: boolean } | void,
+  { state: SliceState; serializedErrorType: SerializedApiError }
+>(
   'dataSources/fetchAll',
-  async () => {
-    const data = await dataSourcesApi.fetchDataSources();
+  async (_, { signal }) => {
+    const data = await dataSourcesApi.fetchAllDataSources({}, { signal });
     return data;
+  },
+  {
+    condition: (options, { getState }) => {
+      const { lastFetch } = getState().dataSources;
+      const isFresh = lastFetch !== null && Date.now() - lastFetch < DATA_SOURCES_STALE_TIME;
+      return Boolean(options?.force) || !isFresh;
+    },
+    // Keep the error class so pages can tell offline from forbidden from missing
+    serializeError: serializeApiError,
   }
 );
 
-export const createDataSourceThunk = createAsyncThunk(
-  'dataSources/create',
-  async (config: Parameters<typeof dataSourcesApi.createDataSource>[0]) => {
-    const data = await dataSourcesApi.createDataSource(config);
-    return data;
+/**
+ * Loads one page of the filtered list. Without a cursor it starts the list
+ * over for `query`; with one it appends the next page.
+ */
+export const fetchDataSourcePageThunk = createAsyncThunk<
+  DataSourcePage,
+  { query: DataSourceQuery; cursor?: string },
+  { serializedErrorType: SerializedApiError }
+>(
+  'dataSources/fetchPage',
+  async ({ query, cursor }, { signal }) => {
+    return dataSourcesApi.fetchDataSources(
+      { ...query, cursor, limit: DATA_SOURCES_PAGE_SIZE },
+      { signal }
+    );
+  },
+  { serializeError: serializeApiError }
+);
+
+export const fetchTagCountsThunk = createAsyncThunk(
+  'dataSources/fetchTagCounts',
+  async (_: void, { signal }) => dataSourcesApi.fetchDataSourceTags({ signal })
+);
+
+/**
+ * Reloads whichever views of the data sources have been loaded so far,
+ * e.g. after queued offline changes were replayed
+ */
+export const refreshDataSourcesThunk = createAsyncThunk<void, void, { state: SliceState }>(
+  'dataSources/refresh',
+  async (_, { dispatch, getState }) => {
+    const { lastFetch, list } = getState().dataSources;
+    const requests: Promise<unknown>[] = [];
+
+    if (lastFetch !== null) {
+      requests.push(dispatch(fetchDataSourcesThunk({ force: true })));
+    }
+    if (list.lastFetch !== null) {
+      requests.push(dispatch(fetchDataSourcePageThunk({ query: list.query })));
+    }
+    await Promise.all(requests);
   }
 );
 
-export const updateDataSourceThunk = createAsyncThunk(
+export const createDataSourceThunk = createAsyncThunk<
+  DataSource,
+  DataSourceConfig,
+  MutationThunkConfig
+>(
+  'dataSources/create',
+  async (config, { dispatch, rejectWithValue }) => {
+    // A create that fails without a response may still have reached the server, so
+    // the queued replay reuses this key
+    const idempotencyKey = createLocalId();
+    const result = await runOrEnqueue(
+      dispatch,
+      () => dataSourcesApi.createDataSource(config, { idempotencyKey }),
+      { type: 'create', data: config },
+      idempotencyKey
+    );
+    return result === QUEUED_OFFLINE ? rejectWithValue({ queued: true }) : result;
+  },
+  { serializeError: serializeApiError }
+);
+
+export const updateDataSourceThunk = createAsyncThunk<
+  DataSource,
+  { id: string; data: Partial<DataSourceConfig> },
+  MutationThunkConfig
+>(
   'dataSources/update',
-  async ({ id, data }: { id: string; data: Parameters<typeof dataSourcesApi.updateDataSource>[1] }) => {
-    const result = await dataSourcesApi.updateDataSource(id, data);
-    return result;
-  }
+  async ({ id, data }, { dispatch, rejectWithValue }) => {
+    const result = await runOrEnqueue(dispatch, () => dataSourcesApi.updateDataSource(id, data), {
+      type: 'update',
+      id,
+      data,
+    });
+    return result === QUEUED_OFFLINE ? rejectWithValue({ queued: true }) : result;
+  },
+  { serializeError: serializeApiError }
 );
 
-export const deleteDataSourceThunk = createAsyncThunk(
+export const deleteDataSourceThunk = createAsyncThunk<
+  string,
+  string,
+  { rejectValue: MutationRejection }
+>(
   'dataSources/delete',
-  async (id: string) => {
-    await dataSourcesApi.deleteDataSource(id);
-    return id;
+  async (id, { dispatch, rejectWithValue }) => {
+    const result = await runOrEnqueue(dispatch, () => dataSourcesApi.deleteDataSource(id), {
+      type: 'delete',
+      id,
+    });
+    return result === QUEUED_OFFLINE ? rejectWithValue({ queued: true }) : id;
+  }
+);
+
+/**
+ * Runs one action over many data sources in batches, recording each item's outcome
+ */
+export const runBulkActionThunk = createAsyncThunk(
+  'dataSources/bulk',
+  async ({ action, ids }: { action: BulkAction; ids: string[] }, { dispatch }) => {
+    for (let start = 0; start < ids.length; start += BULK_BATCH_SIZE) {
+      const batch = ids.slice(start, start + BULK_BATCH_SIZE);
+      try {
+        const { results } = await dataSourcesApi.bulkDataSourceAction({ action, ids: batch });
+        // Items the server left out would otherwise stay pending forever
+        const answered = new Set(results.map(result => result.id));
+        const missing = batch
+          .filter(id => !answered.has(id))
+          .map(id => ({ id, success: false, error: 'No result from server' }));
+        dispatch(bulkBatchCompleted([...results, ...missing]));
+      } catch (error) {
+        // The request itself failed, so every item in the batch did
+        const message = (error as Error).message;
+        dispatch(bulkBatchCompleted(batch.map(id => ({ id, success: false, error: message }))));
+      }
+    }
+  }
+);
+
+export interface ImportOutcome {
+  /**
+   * Row of the import file this outcome belongs to
+   */
+  index: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Creates new data sources in one bulk request and overwrites existing ones one by one.
+ * Server errors are mapped back to the rows of the import file.
+ */
+export const importDataSourcesThunk = createAsyncThunk<ImportOutcome[], ImportPlan, { state: SliceState }>(
+  'dataSources/import',
+  async (plan, { dispatch }) => {
+    const outcomes: ImportOutcome[] = [];
+
+    if (plan.creates.length > 0) {
+      try {
+        const { errors } = await dataSourcesApi.bulkImportDataSources({
+          dataSources: plan.creates.map(item => item.config),
+        });
+        // The server reports failures by position in the submitted list
+        const failures = new Map(errors.map(item => [item.index, item.error]));
+        plan.creates.forEach((item, position) => {
+          const error = failures.get(position);
+          outcomes.push({ index: item.index, success: error === undefined, error });
+        });
+      } catch (error) {
+        const message = (error as Error).message;
+        plan.creates.forEach(item => outcomes.push({ index: item.index, success: false, error: message }));
+      }
+    }
+
+    for (const item of plan.overwrites) {
+      try {
+        await dataSourcesApi.updateDataSource(item.id, item.config);
+        outcomes.push({ index: item.index, success: true });
+      } catch (error) {
+        outcomes.push({ index: item.index, success: false, error: (error as Error).message });
+      }
+    }
+
+    if (outcomes.some(outcome => outcome.success)) {
+      dispatch(refreshDataSourcesThunk());
+      dispatch(fetchTagCountsThunk());
+    }
+
+    return outcomes.sort((a, b) => a.index - b.index);
+  }
+);
+
+export const setDataSourceEnabledThunk = createAsyncThunk(
+  'dataSources/setEnabled',
+  async ({ id, enabled }: { id: string; enabled: boolean }) => {
+    return enabled
+      ? dataSourcesApi.enableDataSource(id)
+      : dataSourcesApi.disableDataSource(id);
   }
 );
 
+// Optimistic update helpers
+const takeSnapshot = (
+  state: DataSourcesState,
+  requestId: string,
+  kind: DataSourceMutationKind,
+  id: string
+) => {
+  state.pendingMutations[requestId] = {
+    kind,
+    id,
+    entity: state.entities[id] ?? null,
+    index: state.ids.indexOf(id),
+  };
+};
+
+const restoreSnapshot = (state: DataSourcesState, requestId: string) => {
+  const snapshot = state.pendingMutations[requestId];
+  if (!snapshot) return;
+
+  dataSourcesAdapter.removeOne(state, snapshot.id);
+  if (snapshot.entity) {
+    // Put the entity back where it was so the list order does not jump
+    state.entities[snapshot.id] = snapshot.entity;
+    state.ids.splice(Math.max(0, snapshot.index), 0, snapshot.id);
+  }
+  delete state.pendingMutations[requestId];
+};
+
+const getMutationError = (
+  action: { payload?: MutationRejection; error: { message?: string } },
+  fallback: string
+): string | null => {
+  // Mutations queued for offline replay are not failures
+  if (action.payload?.queued) return null;
+  return `${fallback}: ${action.error.message || 'Unknown error'}`;
+};
+
+const optimisticId = (requestId: string) => `optimistic-${requestId}`;
+
+/**
+ * Shows a created data source in the loaded list when it matches the list's query,
+ * at its sorted position. One that sorts past the loaded pages arrives with a later page.
+ */
+const insertIntoList = (state: DataSourcesState, source: DataSource) => {
+  const { list } = state;
+  if (list.lastFetch === null || !matchesDataSourceQuery(source, list.query)) return;
+
+  const loaded = list.ids.reduce<DataSource[]>((items, id) => {
+    const entity = state.entities[id];
+    if (entity) items.push(entity);
+    return items;
+  }, []);
+  const index = findSortedIndex(loaded, source, list.query);
+  if (index === -1) {
+    if (list.nextCursor !== null) return;
+    list.ids.push(source.id);
+  } else {
+    list.ids.splice(list.ids.indexOf(loaded[index].id), 0, source.id);
+  }
+  list.total += 1;
+};
+
+const removeFromList = (state: DataSourcesState, id: string) => {
+  if (!state.list.ids.includes(id)) return;
+  state.list.ids = state.list.ids.filter(item => item !== id);
+  state.list.total = Math.max(0, state.list.total - 1);
+};
+
 // Slice
 const dataSourcesSlice = createSlice({
   name: 'dataSources',
   initialState,
   reducers: {
     setDataSources: (state, action: PayloadAction<DataSource[]>) => {
-      state.items = action.payload;
+      dataSourcesAdapter.setAll(state, action.payload);
       state.lastFetch = Date.now();
       state.error = null;
     },
+    upsertDataSource: (state, action: PayloadAction<DataSource>) => {
+      dataSourcesAdapter.upsertOne(state, action.payload);
+    },
     selectDataSource: (state, action: PayloadAction<string | null>) => {
       state.selectedId = action.payload;
     },
     updateDataSourceStatus: (state, action: PayloadAction<{ id: string; status: DataSource['status'] }>) => {
-      const dataSource = state.items.find(item => item.id === action.payload.id);
-      if (dataSource) {
-        dataSource.status = action.payload.status;
-      }
+      dataSourcesAdapter.updateOne(state, {
+        id: action.payload.id,
+        changes: { status: action.payload.status },
+      });
+    },
+    invalidateDataSources: (state) => {
+      state.lastFetch = null;
     },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.loading = action.payload;
     },
-    setError: (state, action: PayloadAction<string | null>) => {
+    setError: (state, action: PayloadAction<SerializedApiError | null>) => {
       state.error = action.payload;
       state.loading = false;
     },
     clearError: (state) => {
       state.error = null;
     },
+    clearMutationError: (state) => {
+      state.mutationError = null;
+    },
+    bulkBatchCompleted: (state, action: PayloadAction<BulkActionResult[]>) => {
+      const bulkAction = state.bulk.action;
+
+      action.payload.forEach(result => {
+        state.bulk.items[result.id] = result.success
+          ? { status: 'success', message: result.message }
+          : { status: 'failed', error: result.error ?? 'Unknown error', message: result.message };
+
+        if (!result.success || !bulkAction) return;
+
+        if (bulkAction.type === 'delete') {
+          dataSourcesAdapter.removeOne(state, result.id);
+          removeFromList(state, result.id);
+        } else if (result.dataSource) {
+          dataSourcesAdapter.upsertOne(state, result.dataSource);
+        } else if (bulkAction.type === 'enable' || bulkAction.type === 'disable') {
+          dataSourcesAdapter.updateOne(state, {
+            id: result.id,
+            changes: { enabled: bulkAction.type === 'enable' },
+          });
+        }
+      });
+    },
+    clearBulkResults: (state) => {
+      state.bulk = initialState.bulk;
+    },
   },
   extraReducers: (builder) => {
-    // Fetch data sources
+    // Fetch data sources. Only the latest request may write to the store, so a
+    // late response from an aborted or superseded fetch is ignored.
     builder
-      .addCase(fetchDataSourcesThunk.pending, (state) => {
+      .addCase(fetchDataSourcesThunk.pending, (state, action) => {
         state.loading = true;
         state.error = null;
+        state.currentRequestId = action.meta.requestId;
       })
       .addCase(fetchDataSourcesThunk.fulfilled, (state, action) => {
-        state.items = action.payload;
+        if (state.currentRequestId !== action.meta.requestId) return;
+        dataSourcesAdapter.setAll(state, action.payload);
         state.loading = false;
         state.lastFetch = Date.now();
+        state.currentRequestId = null;
       })
       .addCase(fetchDataSourcesThunk.rejected, (state, action) => {
+        if (state.currentRequestId !== action.meta.requestId) return;
         state.loading = false;
-        state.error = action.error.message || 'Failed to fetch data sources';
+        state.currentRequestId = null;
+        if (!action.meta.aborted) {
+          state.error = action.error;
+        }
+      });
+
+    // Fetch one page of the filtered list; responses for an older query are dropped
+    builder
+      .addCase(fetchDataSourcePageThunk.pending, (state, action) => {
+        const { query, cursor } = action.meta.arg;
+        if (cursor) {
+          state.list.loadingMore = true;
+        } else {
+          state.list.query = query;
+          state.list.loading = true;
+        }
+        state.list.error = null;
+        state.list.requestId = action.meta.requestId;
+      })
+      .addCase(fetchDataSourcePageThunk.fulfilled, (state, action) => {
+        if (state.list.requestId !== action.meta.requestId) return;
+        const { items, nextCursor, total } = action.payload;
+        const pageIds = items.map(item => item.id);
+
+        dataSourcesAdapter.upsertMany(state, items);
+        state.list.ids = action.meta.arg.cursor
+          ? [...state.list.ids, ...pageIds.filter(id => !state.list.ids.includes(id))]
+          : pageIds;
+        state.list.nextCursor = nextCursor;
+        state.list.total = total;
+        state.list.loading = false;
+        state.list.loadingMore = false;
+        state.list.requestId = null;
+        state.list.lastFetch = Date.now();
+      })
+      .addCase(fetchDataSourcePageThunk.rejected, (state, action) => {
+        if (state.list.requestId !== action.meta.requestId) return;
+        state.list.loading = false;
+        state.list.loadingMore = false;
+        state.list.requestId = null;
+        if (!action.meta.aborted) {
+          state.list.error = action.error;
+        }
+      });
+
+    // Tag facet
+    builder.addCase(fetchTagCountsThunk.fulfilled, (state, action) => {
+      state.tagCounts = action.payload;
+    });
+
+    // Bulk actions
+    builder
+      .addCase(runBulkActionThunk.pending, (state, action) => {
+        const { action: bulkAction, ids } = action.meta.arg;
+        state.bulk.action = bulkAction;
+        state.bulk.running = true;
+        state.bulk.items = ids.reduce<Record<string, BulkItemState>>((items, id) => {
+          items[id] = { status: 'pending' };
+          return items;
+        }, {});
+      })
+      .addCase(runBulkActionThunk.fulfilled, (state) => {
+        state.bulk.running = false;
+      })
+      .addCase(runBulkActionThunk.rejected, (state) => {
+        state.bulk.running = false;
       });
 
     // Create data source
     builder
+      .addCase(createDataSourceThunk.pending, (state, action) => {
+        const id = optimisticId(action.meta.requestId);
+        const timestamp = new Date().toISOString();
+        takeSnapshot(state, action.meta.requestId, 'create', id);
+        const optimistic: DataSource = {
+          ...action.meta.arg,
+          id,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        };
+        dataSourcesAdapter.addOne(state, optimistic);
+        insertIntoList(state, optimistic);
+        state.mutationError = null;
+      })
       .addCase(createDataSourceThunk.fulfilled, (state, action) => {
-        state.items.push(action.payload);
+        const id = optimisticId(action.meta.requestId);
+        dataSourcesAdapter.removeOne(state, id);
+        dataSourcesAdapter.addOne(state, action.payload);
+        // The saved copy takes the optimistic one's place in the list
+        const index = state.list.ids.indexOf(id);
+        if (state.list.ids.includes(action.payload.id)) {
+          // A page loaded meanwhile already lists it
+          removeFromList(state, id);
+        } else if (index !== -1) {
+          state.list.ids[index] = action.payload.id;
+        }
+        delete state.pendingMutations[action.meta.requestId];
       })
       .addCase(createDataSourceThunk.rejected, (state, action) => {
-        state.error = action.error.message || 'Failed to create data source';
+        // Creates queued offline show up through the outbox overlay instead
+        removeFromList(state, optimisticId(action.meta.requestId));
+        restoreSnapshot(state, action.meta.requestId);
+        state.mutationError = getMutationError(action, 'Could not create data source');
       });
 
     // Update data source
     builder
+      .addCase(updateDataSourceThunk.pending, (state, action) => {
+        const { id, data } = action.meta.arg;
+        takeSnapshot(state, action.meta.requestId, 'update', id);
+        dataSourcesAdapter.updateOne(state, { id, changes: data });
+        state.mutationError = null;
+      })
       .addCase(updateDataSourceThunk.fulfilled, (state, action) => {
-        const index = state.items.findIndex(item => item.id === action.payload.id);
-        if (index !== -1) {
-          state.items[index] = action.payload;
-        }
+        dataSourcesAdapter.upsertOne(state, action.payload);
+        delete state.pendingMutations[action.meta.requestId];
       })
       .addCase(updateDataSourceThunk.rejected, (state, action) => {
-        state.error = action.error.message || 'Failed to update data source';
+        restoreSnapshot(state, action.meta.requestId);
+        // On a version conflict the server's copy is newer than anything we hold
+        const current = action.error.name === 'ConflictError'
+          ? (action.error.current as DataSource | null | undefined)
+          : null;
+        if (current?.id) {
+          dataSourcesAdapter.upsertOne(state, current);
+        }
+        state.mutationError = getMutationError(action, 'Could not update data source');
       });
 
     // Delete data source
     builder
+      .addCase(deleteDataSourceThunk.pending, (state, action) => {
+        takeSnapshot(state, action.meta.requestId, 'delete', action.meta.arg);
+        dataSourcesAdapter.removeOne(state, action.meta.arg);
+        state.mutationError = null;
+      })
       .addCase(deleteDataSourceThunk.fulfilled, (state, action) => {
-        state.items = state.items.filter(item => item.id !== action.payload);
+        delete state.pendingMutations[action.meta.requestId];
+        removeFromList(state, action.payload);
         if (state.selectedId === action.payload) {
           state.selectedId = null;
         }
       })
       .addCase(deleteDataSourceThunk.rejected, (state, action) => {
-        state.error = action.error.message || 'Failed to delete data source';
+        restoreSnapshot(state, action.meta.requestId);
+        state.mutationError = getMutationError(action, 'Could not delete data source');
+      });
+
+    // Enable/disable data source
+    builder
+      .addCase(setDataSourceEnabledThunk.pending, (state, action) => {
+        const { id, enabled } = action.meta.arg;
+        takeSnapshot(state, action.meta.requestId, 'setEnabled', id);
+        dataSourcesAdapter.updateOne(state, { id, changes: { enabled } });
+        state.mutationError = null;
+      })
+      .addCase(setDataSourceEnabledThunk.fulfilled, (state, action) => {
+        dataSourcesAdapter.upsertOne(state, action.payload);
+        delete state.pendingMutations[action.meta.requestId];
+      })
+      .addCase(setDataSourceEnabledThunk.rejected, (state, action) => {
+        restoreSnapshot(state, action.meta.requestId);
+        const verb = action.meta.arg.enabled ? 'enable' : 'disable';
+        state.mutationError = `Could not ${verb} data source: ${action.error.message || 'Unknown error'}`;
       });
   },
 });
@@ -136,25 +650,100 @@ const dataSourcesSlice = createSlice({
 // Actions
 export const {
   setDataSources,
+  upsertDataSource,
   selectDataSource,
   updateDataSourceStatus,
+  invalidateDataSources,
   setLoading,
   setError,
   clearError,
+  clearMutationError,
+  bulkBatchCompleted,
+  clearBulkResults,
 } = dataSourcesSlice.actions;
 
 // Selectors
-export const selectAllDataSources = (state: { dataSources: DataSourcesState }) => 
-  state.dataSources.items;
+const adapterSelectors = dataSourcesAdapter.getSelectors((state: SliceState) => state.dataSources);
+
+export const selectAllDataSources = adapterSelectors.selectAll;
+
+export const selectDataSourceById = (id: string) => (state: SliceState) =>
+  adapterSelectors.selectById(state, id);
 
-export const selectDataSourceById = (id: string) => (state: { dataSources: DataSourcesState }) =>
-  state.dataSources.items.find(item => item.id === id);
+// Ids whose entity is missing (e.g. optimistically deleted) are skipped
+export const selectDataSourceListItems = createSelector(
+  [
+    (state: SliceState) => state.dataSources.list.ids,
+    (state: SliceState) => state.dataSources.entities,
+  ],
+  (ids, entities) =>
+    ids.reduce<DataSource[]>((items, id) => {
+      const entity = entities[id];
+      if (entity) items.push(entity);
+      return items;
+    }, [])
+);
+
+export const selectDataSourceList = (state: SliceState) => state.dataSources.list;
+
+export const selectActiveDataSources = (state: SliceState) =>
+  selectAllDataSources(state).filter(item => item.status === 'active');
+
+export const selectIsMutating = (kind: DataSourceMutationKind) => (state: SliceState) =>
+  Object.values(state.dataSources.pendingMutations).some(mutation => mutation.kind === kind);
+
+export const selectDataSourcesByProtocol = (protocol: string) => (state: SliceState) =>
+  selectAllDataSources(state).filter(item => item.protocol === protocol);
+
+export const selectDataSourcesByTag = (tag: string) => (state: SliceState) =>
+  selectAllDataSources(state).filter(item =>
+    item.tags?.some(itemTag => itemTag.toLowerCase() === tag.toLowerCase())
+  );
+
+// Tags of the loaded data sources, sorted; see tagCounts for the whole tenant
+export const selectAllTags = createSelector([selectAllDataSources], dataSources =>
+  Array.from(new Set(dataSources.flatMap(item => item.tags ?? []))).sort((a, b) => a.localeCompare(b))
+);
 
-export const selectActiveDataSources = (state: { dataSources: DataSourcesState }) =>
-  state.dataSources.items.filter(item => item.status === 'active');
+export const selectTagCounts = (state: SliceState) => state.dataSources.tagCounts;
 
-export const selectDataSourcesByProtocol = (protocol: string) => (state: { dataSources: DataSourcesState }) =>
-  state.dataSources.items.filter(item => item.protocol === protocol);
+export interface DataSourceTagGroup {
+  /**
+   * Null for data sources without tags
+   */
+  tag: string | null;
+  dataSources: DataSource[];
+}
+
+/**
+ * Groups data sources by tag. A source with several tags appears in each group;
+ * untagged sources come last. Tags match case-insensitively like
+ * selectDataSourcesByTag, and a group shows the spelling that sorts first.
+ */
+export const selectDataSourcesGroupedByTag = createSelector(
+  [selectAllDataSources, selectAllTags],
+  (dataSources, tags): DataSourceTagGroup[] => {
+    const groups = new Map<string, DataSourceTagGroup>();
+    tags.forEach(tag => {
+      const key = tag.toLowerCase();
+      if (!groups.has(key)) {
+        groups.set(key, { tag, dataSources: [] });
+      }
+    });
+    dataSources.forEach(item => {
+      new Set(item.tags?.map(tag => tag.toLowerCase())).forEach(key => {
+        groups.get(key)?.dataSources.push(item);
+      });
+    });
+
+    const result = Array.from(groups.values());
+    const untagged = dataSources.filter(item => !item.tags?.length);
+    if (untagged.length > 0) {
+      result.push({ tag: null, dataSources: untagged });
+    }
+    return result;
+  }
+);
 
 // Export reducer
-export default dataSourcesSlice.reducer;
\ No newline at end of file
+export default dataSourcesSlice.reducer;
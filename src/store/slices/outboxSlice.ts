@@ -0,0 +1,312 @@
+import {
+  createSlice,
+  PayloadAction,
+  createAsyncThunk,
+  createSelector,
+  nanoid,
+  Dispatch,
+  AnyAction,
+} from '@reduxjs/toolkit';
+import { REHYDRATE, RehydrateAction } from 'redux-persist';
+import { DataSource, DataSourceQuery } from '../../services/api/dataSources';
+import * as dataSourcesApi from '../../services/api/dataSources';
+import { DataSourceConfig } from '../../components/data-sources/ConfigurationForm/types';
+import { NetworkError, NotFoundError, ConflictError } from '../../services/api/errors';
+import { findSortedIndex, matchesDataSourceQuery } from '../../utils/dataSourceQuery';
+
+export type OutboxOperation =
+  | { type: 'create'; data: DataSourceConfig }
+  | { type: 'update'; id: string; data: Partial<DataSourceConfig> }
+  | { type: 'delete'; id: string };
+
+export type OutboxEntryStatus = 'pending' | 'replaying' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  enqueuedAt: number;
+  status: OutboxEntryStatus;
+  error?: string;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  replaying: boolean;
+}
+
+const initialState: OutboxState = {
+  entries: [],
+  replaying: false,
+};
+
+// Data sources created while offline get a local id until the server assigns one
+export const LOCAL_ID_PREFIX = 'local-';
+
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+export const createLocalId = (): string => `${LOCAL_ID_PREFIX}${nanoid()}`;
+
+const isConflict = (error: unknown): boolean =>
+  error instanceof NotFoundError || error instanceof ConflictError;
+
+export const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const QUEUED_OFFLINE = 'queued-offline' as const;
+
+/**
+ * Runs a mutation, queueing it in the outbox instead when the network is
+ * unavailable. Resolves to QUEUED_OFFLINE when the mutation was queued.
+ *
+ * `entryId` becomes the id of the queued entry. Creates pass the idempotency key
+ * they sent, so a replay of a create that did reach the server is not applied twice.
+ */
+export const runOrEnqueue = async <TResult>(
+  dispatch: Dispatch,
+  request: () => Promise<TResult>,
+  operation: OutboxOperation,
+  entryId?: string
+): Promise<TResult | typeof QUEUED_OFFLINE> => {
+  if (isOffline()) {
+    dispatch(enqueueMutation(operation, entryId));
+    return QUEUED_OFFLINE;
+  }
+
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof NetworkError) {
+      dispatch(enqueueMutation(operation, entryId));
+      return QUEUED_OFFLINE;
+    }
+    throw error;
+  }
+};
+
+const replayOperation = async ({ id, operation }: OutboxEntry): Promise<void> => {
+  switch (operation.type) {
+    case 'create':
+      await dataSourcesApi.createDataSource(operation.data, { idempotencyKey: id });
+      break;
+    case 'update':
+      await dataSourcesApi.updateDataSource(operation.id, operation.data);
+      break;
+    case 'delete':
+      await dataSourcesApi.deleteDataSource(operation.id);
+      break;
+  }
+};
+
+// Async thunks
+export const replayOutboxThunk = createAsyncThunk<
+  { replayed: number; conflicts: number },
+  void,
+  { state: { outbox: OutboxState } }
+>(
+  'outbox/replay',
+  async (_, { getState, dispatch }) => {
+    const queued = getState().outbox.entries.filter(entry => entry.status === 'pending');
+    let replayed = 0;
+    let conflicts = 0;
+
+    // Entries are replayed strictly in the order they were queued
+    for (const entry of queued) {
+      dispatch(markReplaying(entry.id));
+      try {
+        await replayOperation(entry);
+        dispatch(removeEntry(entry.id));
+        replayed += 1;
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          // Still offline; keep this and every later entry for the next attempt
+          dispatch(markPending(entry.id));
+          break;
+        }
+        const message = (error as Error).message;
+        if (isConflict(error)) {
+          dispatch(markConflict({ id: entry.id, error: message }));
+          conflicts += 1;
+        } else {
+          dispatch(markFailed({ id: entry.id, error: message }));
+        }
+      }
+    }
+
+    return { replayed, conflicts };
+  },
+  {
+    condition: (_, { getState }) => !getState().outbox.replaying,
+  }
+);
+
+// Slice
+const outboxSlice = createSlice({
+  name: 'outbox',
+  initialState,
+  reducers: {
+    enqueueMutation: {
+      reducer: (state, action: PayloadAction<OutboxEntry>) => {
+        const { operation } = action.payload;
+
+        // Edits to a data source that only exists locally are folded into its create
+        if (operation.type !== 'create' && isLocalId(operation.id)) {
+          const index = state.entries.findIndex(entry => entry.id === operation.id);
+          if (index === -1) return;
+
+          const pendingCreate = state.entries[index].operation;
+          if (operation.type === 'delete') {
+            state.entries.splice(index, 1);
+          } else if (pendingCreate.type === 'create') {
+            pendingCreate.data = { ...pendingCreate.data, ...operation.data };
+          }
+          return;
+        }
+
+        state.entries.push(action.payload);
+      },
+      prepare: (operation: OutboxOperation, id: string = createLocalId()) => ({
+        payload: {
+          id,
+          operation,
+          enqueuedAt: Date.now(),
+          status: 'pending' as OutboxEntryStatus,
+        },
+      }),
+    },
+    markReplaying: (state, action: PayloadAction<string>) => {
+      const entry = state.entries.find(item => item.id === action.payload);
+      if (entry) {
+        entry.status = 'replaying';
+      }
+    },
+    markPending: (state, action: PayloadAction<string>) => {
+      const entry = state.entries.find(item => item.id === action.payload);
+      if (entry) {
+        entry.status = 'pending';
+        entry.error = undefined;
+      }
+    },
+    markConflict: (state, action: PayloadAction<{ id: string; error: string }>) => {
+      const entry = state.entries.find(item => item.id === action.payload.id);
+      if (entry) {
+        entry.status = 'conflict';
+        entry.error = action.payload.error;
+      }
+    },
+    markFailed: (state, action: PayloadAction<{ id: string; error: string }>) => {
+      const entry = state.entries.find(item => item.id === action.payload.id);
+      if (entry) {
+        entry.status = 'failed';
+        entry.error = action.payload.error;
+      }
+    },
+    removeEntry: (state, action: PayloadAction<string>) => {
+      state.entries = state.entries.filter(item => item.id !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(replayOutboxThunk.pending, (state) => {
+        state.replaying = true;
+      })
+      .addCase(replayOutboxThunk.fulfilled, (state) => {
+        state.replaying = false;
+      })
+      .addCase(replayOutboxThunk.rejected, (state) => {
+        state.replaying = false;
+      })
+      // Restores the entries persisted under the outbox's own key
+      .addMatcher(
+        (action: AnyAction): action is RehydrateAction => action.type === REHYDRATE && action.key === 'outbox',
+        (state, action) => {
+          const stored = (action.payload as Partial<OutboxState> | undefined)?.entries;
+          if (!stored) return;
+
+          const known = new Set(state.entries.map(entry => entry.id));
+          // An entry that was replaying when the app closed may or may not have
+          // reached the server; queue it again, the replay is idempotent
+          state.entries = [...stored.filter(entry => !known.has(entry.id)), ...state.entries].map(entry =>
+            entry.status === 'replaying' ? { ...entry, status: 'pending' } : entry
+          );
+        }
+      );
+  },
+});
+
+// Actions
+export const {
+  enqueueMutation,
+  markReplaying,
+  markPending,
+  markConflict,
+  markFailed,
+  removeEntry,
+} = outboxSlice.actions;
+
+// Selectors
+export const selectOutboxEntries = (state: { outbox: OutboxState }) =>
+  state.outbox.entries;
+
+export const selectOutboxConflicts = createSelector([selectOutboxEntries], entries =>
+  entries.filter(entry => entry.status === 'conflict' || entry.status === 'failed')
+);
+
+/**
+ * Overlays queued mutations on the server list so pending changes show up immediately.
+ * With the list's query, queued creates are filtered and sorted like the server would.
+ */
+export const applyOutboxEntries = (
+  items: DataSource[],
+  entries: OutboxEntry[],
+  query?: DataSourceQuery
+): DataSource[] => {
+  let result = [...items];
+
+  entries.forEach(({ id, operation, enqueuedAt }) => {
+    switch (operation.type) {
+      case 'create': {
+        const timestamp = new Date(enqueuedAt).toISOString();
+        const created: DataSource = { ...operation.data, id, createdAt: timestamp, updatedAt: timestamp };
+        if (query && !matchesDataSourceQuery(created, query)) break;
+
+        // The server does not know it yet, so it is shown even past the loaded pages
+        const index = query ? findSortedIndex(result, created, query) : -1;
+        if (index === -1) {
+          result.push(created);
+        } else {
+          result.splice(index, 0, created);
+        }
+        break;
+      }
+      case 'update':
+        result = result.map(item =>
+          item.id === operation.id ? { ...item, ...operation.data } : item
+        );
+        break;
+      case 'delete':
+        // Deleted items stay visible, flagged as pending, until the server confirms
+        break;
+    }
+  });
+
+  return result;
+};
+
+export interface PendingChange {
+  type: OutboxOperation['type'];
+  status: OutboxEntryStatus;
+  error?: string;
+}
+
+/**
+ * Maps data source ids to the latest queued mutation that touches them
+ */
+export const getPendingChangesById = (entries: OutboxEntry[]): Record<string, PendingChange> =>
+  entries.reduce<Record<string, PendingChange>>((acc, entry) => {
+    const targetId = entry.operation.type === 'create' ? entry.id : entry.operation.id;
+    acc[targetId] = { type: entry.operation.type, status: entry.status, error: entry.error };
+    return acc;
+  }, {});
+
+// Export reducer
+export default outboxSlice.reducer;
@@ -0,0 +1,82 @@
+import { createSlice, PayloadAction, nanoid } from '@reduxjs/toolkit';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  /**
+   * URL query string of the view (filters, sort order and view mode), without `?`
+   */
+  search: string;
+  createdAt: number;
+}
+
+interface SavedViewsState {
+  /**
+   * Views keyed by user id so people sharing a browser keep their own lists
+   */
+  byUser: Record<string, SavedView[]>;
+}
+
+const initialState: SavedViewsState = {
+  byUser: {},
+};
+
+// Used before sign-in or when the auth slice has no user
+export const ANONYMOUS_USER = 'anonymous';
+
+const savedViewsSlice = createSlice({
+  name: 'savedViews',
+  initialState,
+  reducers: {
+    saveView: {
+      // Saving under an existing name replaces that view
+      reducer: (state, action: PayloadAction<{ userId: string; view: SavedView }>) => {
+        const { userId, view } = action.payload;
+        const views = state.byUser[userId] ?? [];
+        const existing = views.findIndex(item => item.name === view.name);
+
+        if (existing === -1) {
+          views.push(view);
+        } else {
+          views[existing] = { ...view, id: views[existing].id };
+        }
+        state.byUser[userId] = views;
+      },
+      prepare: (payload: { userId: string; name: string; search: string }) => ({
+        payload: {
+          userId: payload.userId,
+          view: {
+            id: nanoid(),
+            name: payload.name.trim(),
+            search: payload.search,
+            createdAt: Date.now(),
+          },
+        },
+      }),
+    },
+    renameView: (state, action: PayloadAction<{ userId: string; id: string; name: string }>) => {
+      const view = state.byUser[action.payload.userId]?.find(item => item.id === action.payload.id);
+      if (view) {
+        view.name = action.payload.name.trim();
+      }
+    },
+    deleteView: (state, action: PayloadAction<{ userId: string; id: string }>) => {
+      const views = state.byUser[action.payload.userId];
+      if (views) {
+        state.byUser[action.payload.userId] = views.filter(item => item.id !== action.payload.id);
+      }
+    },
+  },
+});
+
+// Actions
+export const { saveView, renameView, deleteView } = savedViewsSlice.actions;
+
+// Selectors
+const EMPTY_VIEWS: SavedView[] = [];
+
+export const selectSavedViews = (userId: string) => (state: { savedViews: SavedViewsState }) =>
+  state.savedViews.byUser[userId] ?? EMPTY_VIEWS;
+
+// Export reducer
+export default savedViewsSlice.reducer;
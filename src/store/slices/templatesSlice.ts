@@ -0,0 +1,75 @@
+import { createSlice, PayloadAction, nanoid } from '@reduxjs/toolkit';
+import { DataSourceConfig } from '../../components/data-sources/ConfigurationForm/types';
+import { DataSourceTemplate } from '../../utils/dataSourceTemplates';
+
+interface TemplatesState {
+  /**
+   * User-defined templates keyed by user id, like saved views
+   */
+  byUser: Record<string, DataSourceTemplate[]>;
+}
+
+const initialState: TemplatesState = {
+  byUser: {},
+};
+
+const templatesSlice = createSlice({
+  name: 'templates',
+  initialState,
+  reducers: {
+    saveTemplate: {
+      // Saving under an existing name replaces that template
+      reducer: (state, action: PayloadAction<{ userId: string; template: DataSourceTemplate }>) => {
+        const { userId, template } = action.payload;
+        const templates = state.byUser[userId] ?? [];
+        const existing = templates.findIndex(item => item.name === template.name);
+
+        if (existing === -1) {
+          templates.push(template);
+        } else {
+          templates[existing] = { ...template, id: templates[existing].id };
+        }
+        state.byUser[userId] = templates;
+      },
+      prepare: (payload: {
+        userId: string;
+        name: string;
+        description?: string;
+        config: DataSourceConfig;
+      }) => {
+        // Server bookkeeping never belongs in a template
+        const { version, ...config } = payload.config;
+        return {
+          payload: {
+            userId: payload.userId,
+            template: {
+              id: nanoid(),
+              name: payload.name.trim(),
+              description: payload.description,
+              builtIn: false,
+              config,
+            },
+          },
+        };
+      },
+    },
+    deleteTemplate: (state, action: PayloadAction<{ userId: string; id: string }>) => {
+      const templates = state.byUser[action.payload.userId];
+      if (templates) {
+        state.byUser[action.payload.userId] = templates.filter(item => item.id !== action.payload.id);
+      }
+    },
+  },
+});
+
+// Actions
+export const { saveTemplate, deleteTemplate } = templatesSlice.actions;
+
+// Selectors
+const EMPTY_TEMPLATES: DataSourceTemplate[] = [];
+
+export const selectUserTemplates = (userId: string) => (state: { templates: TemplatesState }) =>
+  state.templates.byUser[userId] ?? EMPTY_TEMPLATES;
+
+// Export reducer
+export default templatesSlice.reducer;
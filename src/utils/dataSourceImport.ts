@@ -0,0 +1,337 @@
+import yaml from 'js-yaml';
+import { DataSource } from '../services/api/dataSources';
+import { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
+import { dataSourceNameSchema } from './validation';
+import { validateDataSourceConfig, ConfigValidationError } from '../protocols';
+import { diffObjects, FieldChange } from './diff';
+import { keepCurrentSecrets } from './dataSourceExport';
+
+/**
+ * Import files hold a list of data source definitions:
+ *
+ * - JSON/YAML: an array, or an object with a `dataSources` array
+ * - CSV: one data source per row. Columns are `name`, `protocol`, `description`,
+ *   `enabled`, `tags` (separated by `;`) and `connectionDetails.<field>`.
+ *
+ * Redacted secrets and `${secret:...}` references, as written by the export, keep
+ * the value of the existing data source with the same name. Without one the row
+ * is rejected rather than saving the placeholder as a credential.
+ */
+
+export type ImportFormat = 'json' | 'yaml' | 'csv';
+
+/**
+ * What to do with a row whose name is already taken by an existing data source
+ */
+export type ImportResolution = 'create' | 'skip' | 'overwrite' | 'rename';
+
+export interface ImportRow {
+  /**
+   * Position of the row in the file, starting at 0
+   */
+  index: number;
+  config: DataSourceConfig | null;
+  errors: ConfigValidationError[];
+  /**
+   * Existing data source with the same name
+   */
+  existing: DataSource | null;
+  /**
+   * Fields an overwrite would change on `existing`
+   */
+  changes: FieldChange[];
+  resolution: ImportResolution;
+  /**
+   * Name to create the row under when `resolution` is `rename`
+   */
+  renameTo?: string;
+}
+
+const CSV_LIST_SEPARATOR = ';';
+
+const DETAILS_PREFIX = 'connectionDetails.';
+
+// Fields that never come from a file or differ on every server copy
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'lastConnectedAt', 'status', 'version'];
+
+export const detectImportFormat = (filename: string): ImportFormat | null => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'json':
+      return 'json';
+    case 'yaml':
+    case 'yml':
+      return 'yaml';
+    case 'csv':
+      return 'csv';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may contain commas,
+ * line breaks and doubled quotes.
+ */
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data source
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+const csvToRecords = (content: string): Record<string, unknown>[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  if (!columns.includes('name') || !columns.includes('protocol')) {
+    throw new Error('CSV files need a header row with at least "name" and "protocol" columns');
+  }
+
+  return rows.map(cells =>
+    columns.reduce<Record<string, any>>((record, column, position) => {
+      const value = cells[position]?.trim() ?? '';
+      // Empty cells are left out so schema defaults and optional fields apply
+      if (value === '') return record;
+
+      if (column.startsWith(DETAILS_PREFIX)) {
+        record.connectionDetails = {
+          ...record.connectionDetails,
+          [column.slice(DETAILS_PREFIX.length)]: value,
+        };
+      } else if (column === 'tags') {
+        record.tags = value.split(CSV_LIST_SEPARATOR).map(tag => tag.trim()).filter(Boolean);
+      } else {
+        record[column] = value;
+      }
+      return record;
+    }, {})
+  );
+};
+
+const toRecordList = (parsed: unknown): Record<string, unknown>[] => {
+  const list = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && 'dataSources' in parsed
+      ? parsed.dataSources
+      : undefined;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a list of data sources or an object with a "dataSources" list');
+  }
+  return list;
+};
+
+/**
+ * Reads the data source definitions from an import file.
+ * Throws when the file cannot be parsed at all.
+ */
+export const parseImportFile = (content: string, format: ImportFormat): Record<string, unknown>[] => {
+  switch (format) {
+    case 'json':
+      try {
+        return toRecordList(JSON.parse(content));
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new Error(`Invalid JSON: ${error.message}`);
+        }
+        throw error;
+      }
+    case 'yaml':
+      try {
+        return toRecordList(yaml.load(content));
+      } catch (error) {
+        if (error instanceof yaml.YAMLException) {
+          throw new Error(`Invalid YAML: ${error.reason}`);
+        }
+        throw error;
+      }
+    case 'csv':
+      return csvToRecords(content);
+  }
+};
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Validates each record and matches it against existing data sources by name.
+ * Rows that clash with an existing data source are skipped until the user decides.
+ * Secret placeholders are resolved here, so `config` is what gets saved.
+ */
+export const buildImportRows = (
+  records: unknown[],
+  existing: DataSource[]
+): ImportRow[] => {
+  const existingByName = new Map(existing.map(source => [normalizeName(source.name), source]));
+  const seen = new Set<string>();
+
+  return records.map((record, index) => {
+    const { value, errors } = validateDataSourceConfig(record);
+    const config = value as DataSourceConfig | null;
+
+    if (!config) {
+      return { index, config: null, errors, existing: null, changes: [], resolution: 'skip' };
+    }
+
+    const key = normalizeName(config.name);
+    if (seen.has(key)) {
+      return {
+        index,
+        config,
+        errors: [{ path: 'name', message: 'Name appears more than once in this file' }],
+        existing: null,
+        changes: [],
+        resolution: 'skip',
+      };
+    }
+    seen.add(key);
+
+    const match = existingByName.get(key) ?? null;
+    const unresolved: string[] = [];
+    const resolved: DataSourceConfig = {
+      ...config,
+      connectionDetails: keepCurrentSecrets(
+        config.connectionDetails,
+        match?.connectionDetails,
+        'connectionDetails',
+        unresolved
+      ) as Record<string, any>,
+    };
+
+    if (unresolved.length > 0) {
+      return {
+        index,
+        config,
+        errors: unresolved.map(path => ({ path, message: 'Secret placeholder has no current value to keep' })),
+        existing: match,
+        changes: [],
+        resolution: 'skip',
+      };
+    }
+
+    return {
+      index,
+      config: resolved,
+      errors: [],
+      existing: match,
+      changes: match
+        ? diffObjects(
+          match as unknown as Record<string, unknown>,
+          resolved as unknown as Record<string, unknown>,
+          { ignore: IGNORED_FIELDS }
+        )
+        : [],
+      resolution: match ? 'skip' : 'create',
+    };
+  });
+};
+
+/**
+ * Appends the first free numeric suffix, e.g. `orders-api-2`
+ */
+export const suggestImportName = (name: string, taken: Set<string>): string => {
+  let suffix = 2;
+  while (taken.has(normalizeName(`${name}-${suffix}`))) {
+    suffix += 1;
+  }
+  return `${name}-${suffix}`;
+};
+
+/**
+ * Names the import would occupy, excluding `exceptIndex`, for checking renames
+ */
+export const getTakenNames = (
+  rows: ImportRow[],
+  existing: DataSource[],
+  exceptIndex?: number
+): Set<string> => {
+  const taken = new Set(existing.map(source => normalizeName(source.name)));
+  rows.forEach(row => {
+    if (row.index === exceptIndex || !row.config) return;
+    if (row.resolution === 'create') taken.add(normalizeName(row.config.name));
+    if (row.resolution === 'rename' && row.renameTo) taken.add(normalizeName(row.renameTo));
+  });
+  return taken;
+};
+
+export const getRenameError = (name: string, taken: Set<string>): string | null => {
+  try {
+    dataSourceNameSchema.validateSync(name);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return taken.has(normalizeName(name)) ? 'Name is already in use' : null;
+};
+
+export interface ImportPlan {
+  creates: Array<{ index: number; config: DataSourceConfig }>;
+  overwrites: Array<{ index: number; id: string; config: DataSourceConfig }>;
+}
+
+/**
+ * Turns the reviewed rows into the requests to send. Invalid and skipped rows are left out.
+ */
+export const getImportPlan = (rows: ImportRow[]): ImportPlan =>
+  rows.reduce<ImportPlan>(
+    (plan, row) => {
+      if (!row.config || row.errors.length > 0) return plan;
+
+      switch (row.resolution) {
+        case 'create':
+          plan.creates.push({ index: row.index, config: row.config });
+          break;
+        case 'rename':
+          if (row.renameTo) {
+            plan.creates.push({ index: row.index, config: { ...row.config, name: row.renameTo } });
+          }
+          break;
+        case 'overwrite':
+          if (row.existing) {
+            plan.overwrites.push({
+              index: row.index,
+              id: row.existing.id,
+              config: { ...row.config, version: row.existing.version },
+            });
+          }
+          break;
+      }
+      return plan;
+    },
+    { creates: [], overwrites: [] }
+  );
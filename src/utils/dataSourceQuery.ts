@@ -0,0 +1,259 @@
+import { DataSource, DataSourceQuery } from '../services/api/dataSources';
+import { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
+import { getProtocols, isRegisteredProtocol } from '../protocols';
+
+/**
+ * Search bar query language, e.g. `protocol:grpc status:error tag:billing "orders api"`
+ *
+ * - `field:value` filters on a field; values with spaces are quoted (`tag:"team a"`)
+ * - Anything else is free text matched against name and description, including
+ *   `word:` tokens that do not name a field, e.g. `https://api.example.com`
+ * - `protocol` and `status` keep the last value given; `tag` may repeat
+ */
+
+export type QueryField = 'protocol' | 'status' | 'tag';
+
+export const QUERY_FIELDS: QueryField[] = ['protocol', 'status', 'tag'];
+
+const STATUSES: NonNullable<DataSource['status']>[] = ['active', 'inactive', 'error'];
+
+export interface DataSourceFilter {
+  text: string[];
+  protocol?: DataSourceConfig['protocol'];
+  status?: NonNullable<DataSource['status']>;
+  tags: string[];
+}
+
+export interface QueryParseError {
+  message: string;
+  /**
+   * Offset of the offending token in the input
+   */
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  filter: DataSourceFilter;
+  errors: QueryParseError[];
+}
+
+interface Token {
+  field?: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const unquote = (value: string): string => value.replace(/^"/, '').replace(/"$/, '');
+
+// Splits on whitespace outside quotes; `field:"a b"` and `"a b"` stay one token
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /(?:[^\s"]+|"[^"]*"?)+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const raw = match[0];
+    const fieldMatch = /^([A-Za-z]+):(.*)$/.exec(raw);
+    tokens.push({
+      field: fieldMatch?.[1].toLowerCase(),
+      value: unquote(fieldMatch ? fieldMatch[2] : raw),
+      start: match.index,
+      end: match.index + raw.length,
+    });
+  }
+
+  return tokens;
+};
+
+const isQueryField = (field: string): field is QueryField =>
+  (QUERY_FIELDS as string[]).includes(field);
+
+const quote = (value: string): string => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+// Reads every token as free text, the way the parser reads unknown fields
+const parseText = (input: string): string[] =>
+  tokenize(input)
+    .map(({ field, value, start, end }) => (field ? input.slice(start, end).replace(/"/g, '') : value))
+    .filter(Boolean);
+
+export const parseDataSourceQuery = (input: string): ParsedQuery => {
+  const filter: DataSourceFilter = { text: [], tags: [] };
+  const errors: QueryParseError[] = [];
+
+  tokenize(input).forEach(({ field, value, start, end }) => {
+    if (!field) {
+      if (value) filter.text.push(value);
+      return;
+    }
+
+    if (!isQueryField(field)) {
+      filter.text.push(input.slice(start, end).replace(/"/g, ''));
+      return;
+    }
+
+    const normalized = value.trim();
+    if (!normalized) {
+      errors.push({ message: `Missing value for "${field}"`, start, end });
+      return;
+    }
+
+    switch (field) {
+      case 'protocol':
+        if (isRegisteredProtocol(normalized.toLowerCase())) {
+          filter.protocol = normalized.toLowerCase() as DataSourceFilter['protocol'];
+        } else {
+          errors.push({ message: `Unknown protocol "${normalized}"`, start, end });
+        }
+        break;
+      case 'status':
+        if ((STATUSES as string[]).includes(normalized.toLowerCase())) {
+          filter.status = normalized.toLowerCase() as DataSourceFilter['status'];
+        } else {
+          errors.push({ message: `Unknown status "${normalized}"`, start, end });
+        }
+        break;
+      case 'tag':
+        if (!filter.tags.includes(normalized)) {
+          filter.tags.push(normalized);
+        }
+        break;
+    }
+  });
+
+  return { filter, errors };
+};
+
+
+/**
+ * Turns a filter back into query text, e.g. to show URL filters in the search bar
+ */
+export const formatDataSourceQuery = (filter: Partial<DataSourceFilter>): string =>
+  [
+    filter.protocol && `protocol:${filter.protocol}`,
+    filter.status && `status:${filter.status}`,
+    ...(filter.tags ?? []).map(tag => `tag:${quote(tag)}`),
+    ...(filter.text ?? []).map(quote),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Maps a filter onto `fetchDataSources` parameters. Phrases stay quoted in `q`.
+ * The API takes a single tag, so any further tags have to be applied with
+ * `matchesDataSourceFilter`.
+ */
+export const toDataSourceQuery = (
+  filter: DataSourceFilter
+): Pick<DataSourceQuery, 'q' | 'protocol' | 'status' | 'tag'> => ({
+  q: filter.text.map(quote).join(' ') || undefined,
+  protocol: filter.protocol,
+  status: filter.status,
+  tag: filter.tags[0],
+});
+
+/**
+ * Maps `fetchDataSources` parameters back onto a filter. `q` is read back into
+ * words and quoted phrases, so the search stays the same when it goes through
+ * the URL and back into the search bar.
+ */
+export const fromDataSourceQuery = (query: DataSourceQuery): DataSourceFilter => ({
+  text: query.q ? parseText(query.q) : [],
+  protocol: query.protocol,
+  status: query.status,
+  tags: query.tag ? [query.tag] : [],
+});
+
+/**
+ * Client-side equivalent of the server filter
+ */
+export const matchesDataSourceFilter = (source: DataSource, filter: DataSourceFilter): boolean => {
+  if (filter.protocol && source.protocol !== filter.protocol) return false;
+  if (filter.status && source.status !== filter.status) return false;
+
+  const sourceTags = (source.tags ?? []).map(tag => tag.toLowerCase());
+  if (!filter.tags.every(tag => sourceTags.includes(tag.toLowerCase()))) return false;
+
+  const haystack = `${source.name} ${source.description ?? ''}`.toLowerCase();
+  return filter.text.every(term => haystack.includes(term.toLowerCase()));
+};
+
+/**
+ * Client-side equivalent of a `fetchDataSources` query, for data sources the
+ * server has not listed yet, e.g. optimistic or queued creates
+ */
+export const matchesDataSourceQuery = (source: DataSource, query: DataSourceQuery): boolean =>
+  matchesDataSourceFilter(source, fromDataSourceQuery(query));
+
+/**
+ * Position at which `source` belongs in `items` sorted by `query.sort` and
+ * `query.order`, or -1 when it sorts after all of them
+ */
+export const findSortedIndex = (
+  items: DataSource[],
+  source: DataSource,
+  query: DataSourceQuery
+): number => {
+  const { sort } = query;
+  if (!sort) return -1;
+
+  const direction = query.order === 'desc' ? -1 : 1;
+  // Names sort like the server's collation; timestamps are ISO strings
+  const compare = (a: DataSource, b: DataSource): number => {
+    const left = a[sort] ?? '';
+    const right = b[sort] ?? '';
+    if (sort === 'name') return left.localeCompare(right) * direction;
+    return (left < right ? -1 : left > right ? 1 : 0) * direction;
+  };
+
+  return items.findIndex(item => compare(source, item) < 0);
+};
+
+export interface QuerySuggestion {
+  /**
+   * Text shown in the suggestion list
+   */
+  label: string;
+  /**
+   * Full query text after accepting the suggestion
+   */
+  value: string;
+}
+
+/**
+ * Suggests field names and values for the token being typed at the end of `input`
+ */
+export const getQuerySuggestions = (
+  input: string,
+  options: { tags?: string[] } = {}
+): QuerySuggestion[] => {
+  const lastSpace = input.search(/\S*$/);
+  const prefix = input.slice(0, lastSpace);
+  const current = input.slice(lastSpace);
+  const separator = current.indexOf(':');
+
+  // Completing a field name
+  if (separator === -1) {
+    const partial = current.toLowerCase();
+    return QUERY_FIELDS
+      .filter(field => field.startsWith(partial))
+      .map(field => ({ label: `${field}:`, value: `${prefix}${field}:` }));
+  }
+
+  // Completing a value for a known field
+  const field = current.slice(0, separator).toLowerCase();
+  const partial = current.slice(separator + 1).replace(/^"/, '').toLowerCase();
+  const values: string[] =
+    field === 'protocol' ? getProtocols().map(protocol => protocol.id) :
+    field === 'status' ? STATUSES :
+    field === 'tag' ? options.tags ?? [] :
+    [];
+
+  return values
+    .filter(value => value.toLowerCase().startsWith(partial))
+    .map(value => ({
+      label: `${field}:${value}`,
+      value: `${prefix}${field}:${quote(value)} `,
+    }));
+};
@@ -0,0 +1,191 @@
+import { DataSource } from '../services/api/dataSources';
+import { DataSourceConfig } from '../components/data-sources/ConfigurationForm/types';
+
+/**
+ * Templates prefill the configuration form for a new data source. Any string in a
+ * template may contain `{{variable}}` placeholders, e.g. `https://{{env}}.example.com`;
+ * the user supplies their values when creating a data source from the template.
+ */
+
+export interface DataSourceTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  /**
+   * Built-in templates ship with the app and cannot be deleted
+   */
+  builtIn: boolean;
+  config: DataSourceConfig;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export const BUILT_IN_TEMPLATES: DataSourceTemplate[] = [
+  {
+    id: 'builtin-http-rest',
+    name: 'REST API',
+    description: 'JSON API polled over HTTPS',
+    builtIn: true,
+    config: {
+      name: '{{service}}-{{env}}',
+      protocol: 'http',
+      tags: ['{{env}}'],
+      connectionDetails: {
+        url: 'https://{{service}}.{{env}}.example.com/api',
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+        timeout: 30000,
+        retryCount: 3,
+      },
+    },
+  },
+  {
+    id: 'builtin-websocket-stream',
+    name: 'WebSocket stream',
+    description: 'Secure WebSocket feed with automatic reconnects',
+    builtIn: true,
+    config: {
+      name: '{{service}}-stream-{{env}}',
+      protocol: 'websocket',
+      tags: ['{{env}}'],
+      connectionDetails: {
+        url: 'wss://{{service}}.{{env}}.example.com/stream',
+        reconnectInterval: 5000,
+        maxReconnectAttempts: 5,
+      },
+    },
+  },
+  {
+    id: 'builtin-sse-feed',
+    name: 'Event stream',
+    description: 'Server-Sent Events feed that resumes from the last event',
+    builtIn: true,
+    config: {
+      name: '{{service}}-events-{{env}}',
+      protocol: 'sse',
+      tags: ['{{env}}'],
+      connectionDetails: {
+        url: 'https://{{service}}.{{env}}.example.com/events',
+        headers: {},
+        eventTypes: [],
+        resumeFromLastEventId: true,
+        retryInterval: 3000,
+        maxRetries: 5,
+      },
+    },
+  },
+  {
+    id: 'builtin-grpc-service',
+    name: 'gRPC service',
+    description: 'Unary or streaming call on a gRPC service',
+    builtIn: true,
+    config: {
+      name: '{{service}}-grpc-{{env}}',
+      protocol: 'grpc',
+      tags: ['{{env}}'],
+      connectionDetails: {
+        endpoint: '{{service}}.{{env}}.internal:50051',
+        service: '{{grpcService}}',
+        method: '{{grpcMethod}}',
+      },
+    },
+  },
+  {
+    id: 'builtin-queue-consumer',
+    name: 'Queue consumer',
+    description: 'Consumer group reading from a message queue',
+    builtIn: true,
+    config: {
+      name: '{{queue}}-consumer-{{env}}',
+      protocol: 'queue',
+      tags: ['{{env}}'],
+      connectionDetails: {
+        brokerUrl: 'amqp://broker.{{env}}.internal:5672',
+        queueName: '{{queue}}',
+        consumerGroup: '{{service}}',
+        maxMessages: 100,
+      },
+    },
+  },
+  {
+    id: 'builtin-mqtt-telemetry',
+    name: 'MQTT telemetry',
+    description: 'Device telemetry from an MQTT broker over TLS',
+    builtIn: true,
+    config: {
+      name: '{{service}}-telemetry-{{env}}',
+      protocol: 'mqtt',
+      tags: ['{{env}}', 'iot'],
+      connectionDetails: {
+        brokerUrl: 'mqtts://mqtt.{{env}}.example.com:8883',
+        topics: ['{{service}}/+/telemetry'],
+        qos: 1,
+        cleanSession: true,
+        keepAlive: 60,
+        authType: 'password',
+        username: '{{service}}',
+      },
+    },
+  },
+];
+
+const mapStrings = (value: unknown, transform: (text: string) => string): unknown => {
+  if (typeof value === 'string') return transform(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, mapStrings(child, transform)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Placeholder variables used anywhere in a config, in order of first use
+ */
+export const getTemplateVariables = (config: DataSourceConfig): string[] => {
+  const variables = new Set<string>();
+  mapStrings(config, text => {
+    for (const match of Array.from(text.matchAll(VARIABLE_PATTERN))) {
+      variables.add(match[1]);
+    }
+    return text;
+  });
+  return Array.from(variables);
+};
+
+/**
+ * Substitutes variable values into a template config. Variables without a value
+ * are left as they are, so the form shows what still needs filling in.
+ */
+export const resolveTemplate = (
+  config: DataSourceConfig,
+  values: Record<string, string>
+): DataSourceConfig =>
+  mapStrings(config, text =>
+    text.replace(VARIABLE_PATTERN, (placeholder, variable: string) => values[variable] ?? placeholder)
+  ) as DataSourceConfig;
+
+/**
+ * Copies a data source as the starting point for a new one, named `<name> copy`
+ * (or `<name> copy 2` and so on when that is taken)
+ */
+export const duplicateDataSource = (
+  source: DataSource,
+  existingNames: string[] = []
+): DataSourceConfig => {
+  const taken = new Set(existingNames.map(name => name.trim().toLowerCase()));
+  let name = `${source.name} copy`;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix += 1) {
+    name = `${source.name} copy ${suffix}`;
+  }
+
+  return {
+    name,
+    protocol: source.protocol,
+    description: source.description,
+    tags: source.tags ? [...source.tags] : [],
+    enabled: source.enabled,
+    connectionDetails: JSON.parse(JSON.stringify(source.connectionDetails ?? {})),
+  };
+};
@@ -0,0 +1,51 @@
+export interface FieldChange {
+  /**
+   * Dotted path of the changed value, e.g. `connectionDetails.url`
+   */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Flattens nested objects into dotted paths. Arrays are kept as leaf values.
+ */
+export const flattenObject = (
+  value: Record<string, unknown>,
+  prefix = ''
+): Record<string, unknown> =>
+  Object.entries(value).reduce<Record<string, unknown>>((acc, [key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      Object.assign(acc, flattenObject(child, path));
+    } else {
+      acc[path] = child;
+    }
+    return acc;
+  }, {});
+
+const isEqualValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Lists every path whose value differs between `before` and `after`
+ */
+export const diffObjects = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  options: { ignore?: string[] } = {}
+): FieldChange[] => {
+  const flatBefore = flattenObject(before);
+  const flatAfter = flattenObject(after);
+  const ignore = options.ignore ?? [];
+  const paths = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]));
+
+  return paths
+    .filter(path => !ignore.some(ignored => path === ignored || path.startsWith(`${ignored}.`)))
+    .filter(path => !isEqualValue(flatBefore[path], flatAfter[path]))
+    .map(path => ({ path, before: flatBefore[path], after: flatAfter[path] }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+};
@@ -0,0 +1,13 @@
+/**
+ * Saves `content` as a file through a temporary object URL
+ */
+export const downloadFile = (filename: string, content: string, type = 'application/json'): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -1,4 +1,5 @@
 import { format, formatDistance, formatRelative, parseISO } from 'date-fns';
+import { getProtocol } from '../protocols';
 
 // Date formatters
 export const formatDate = (date: string | Date, formatString = 'PPP'): string => {
@@ -81,19 +82,17 @@ export const kebabToTitle = (str: string): string => {
 };
 
 // Protocol formatters
-export const formatProtocol = (protocol: string): string => {
-  const protocolMap: Record<string, string> = {
-    http: 'HTTP/REST',
-    websocket: 'WebSocket',
-    grpc: 'gRPC',
-    queue: 'Message Queue',
-  };
-  return protocolMap[protocol] || protocol.toUpperCase();
+export const formatProtocol = (protocol: string, connectionDetails?: Record<string, any>): string => {
+  const definition = getProtocol(protocol);
+  const detailed = connectionDetails ? definition?.formatLabel?.(connectionDetails) : undefined;
+  return detailed || definition?.label || protocol.toUpperCase();
 };
 
 // Status formatters
-export const formatStatus = (status: string): { label: string; color: string } => {
-  const statusMap: Record<string, { label: string; color: string }> = {
+type StatusColor = 'default' | 'success' | 'warning' | 'error';
+
+export const formatStatus = (status: string): { label: string; color: StatusColor } => {
+  const statusMap: Record<string, { label: string; color: StatusColor }> = {
     active: { label: 'Active', color: 'success' },
     inactive: { label: 'Inactive', color: 'default' },
     error: { label: 'Error', color: 'error' },
@@ -104,6 +103,17 @@ export const formatStatus = (status: string): { label: string; color: string } =
   return statusMap[status] || { label: capitalize(status), color: 'default' };
 };
 
+// Offline sync state of a queued change, e.g. from the outbox
+export const formatPendingChange = ({ type, status }: {
+  type: 'create' | 'update' | 'delete';
+  status: 'pending' | 'replaying' | 'conflict' | 'failed';
+}): { label: string; color: 'default' | 'warning' | 'error' } => {
+  if (status === 'conflict') return { label: 'Sync conflict', color: 'error' };
+  if (status === 'failed') return { label: 'Sync failed', color: 'error' };
+  if (type === 'delete') return { label: 'Pending delete', color: 'warning' };
+  return { label: status === 'replaying' ? 'Syncing...' : 'Pending sync', color: 'warning' };
+};
+
 // Duration formatters
 export const formatDuration = (milliseconds: number): string => {
   const seconds = Math.floor(milliseconds / 1000);
@@ -0,0 +1,10 @@
+/**
+ * Reads a file picked by the user as text
+ */
+export const readTextFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsText(file);
+  });
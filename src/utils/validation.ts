@@ -64,6 +64,34 @@ export const websocketConfigSchema = yup.object({
     .max(10, 'Maximum 10 reconnect attempts allowed'),
 });
 
+export const sseConfigSchema = yup.object({
+  url: yup
+    .string()
+    .matches(/^https?:\/\//, 'Must be an HTTP(S) URL')
+    .url('Must be a valid URL')
+    .required('Event stream URL is required'),
+  headers: yup.object().nullable(),
+  // Only events of these types are kept; empty keeps every event
+  eventTypes: yup
+    .array(
+      yup
+        .string()
+        .required()
+        .matches(/^\S+$/, 'Event types cannot contain spaces')
+    )
+    .nullable(),
+  resumeFromLastEventId: yup.boolean(),
+  lastEventId: yup.string().nullable(),
+  retryInterval: yup
+    .number()
+    .min(1000, 'Retry interval must be at least 1 second')
+    .max(60000, 'Retry interval cannot exceed 1 minute'),
+  maxRetries: yup
+    .number()
+    .min(0, 'Max retries cannot be negative')
+    .max(10, 'Maximum 10 retries allowed'),
+});
+
 export const grpcConfigSchema = yup.object({
   endpoint: yup
     .string()
@@ -74,7 +102,18 @@ export const grpcConfigSchema = yup.object({
   method: yup.string().required('Method name is required'),
 });
 
-export const queueConfigSchema = yup.object({
+// Message queues: each broker type has its own connection details
+export const QUEUE_BROKER_TYPES = ['generic', 'kafka', 'amqp', 'sqs'] as const;
+
+export type QueueBrokerType = typeof QUEUE_BROKER_TYPES[number];
+
+const brokerTypeSchema = yup
+  .string()
+  .oneOf([...QUEUE_BROKER_TYPES], 'Unknown broker type');
+
+// Also covers queue data sources saved before broker types existed
+export const genericQueueConfigSchema = yup.object({
+  brokerType: brokerTypeSchema,
   brokerUrl: urlSchema,
   queueName: yup
     .string()
@@ -87,6 +126,209 @@ export const queueConfigSchema = yup.object({
     .max(1000, 'Cannot process more than 1000 messages at once'),
 });
 
+export const kafkaQueueConfigSchema = yup.object({
+  brokerType: brokerTypeSchema,
+  bootstrapServers: yup
+    .array(
+      yup
+        .string()
+        .required()
+        .matches(/^[a-zA-Z0-9.-]+:[0-9]+$/, 'Bootstrap servers must be host:port')
+    )
+    .min(1, 'Add at least one bootstrap server')
+    .required('Add at least one bootstrap server'),
+  topics: yup
+    .array(
+      yup
+        .string()
+        .required()
+        .matches(/^[a-zA-Z0-9._-]{1,249}$/, 'Invalid topic name: ${value}')
+    )
+    .min(1, 'Add at least one topic')
+    .required('Add at least one topic'),
+  consumerGroup: yup.string().required('Consumer group is required'),
+  offsetReset: yup
+    .string()
+    .oneOf(['earliest', 'latest', 'none'], 'Offset reset must be earliest, latest or none'),
+  ssl: yup.boolean(),
+  sasl: yup
+    .object({
+      mechanism: yup
+        .string()
+        .oneOf(['plain', 'scram-sha-256', 'scram-sha-512'], 'Unsupported SASL mechanism')
+        .required('SASL mechanism is required'),
+      username: yup.string().required('SASL username is required'),
+      password: yup.string().nullable(),
+    })
+    .nullable()
+    .default(undefined),
+});
+
+export const amqpQueueConfigSchema = yup.object({
+  brokerType: brokerTypeSchema,
+  brokerUrl: yup
+    .string()
+    .matches(/^amqps?:\/\/[^\s/]+/, 'Must be an amqp:// or amqps:// URL')
+    .required('Broker URL is required'),
+  vhost: yup.string(),
+  // Empty means the default exchange, which routes by queue name
+  exchange: yup.string(),
+  exchangeType: yup
+    .string()
+    .oneOf(['direct', 'topic', 'fanout', 'headers'], 'Unknown exchange type'),
+  routingKey: yup.string().max(255, 'Routing key must be at most 255 characters'),
+  queueName: yup
+    .string()
+    .matches(/^[a-zA-Z0-9-_.:]+$/, 'Invalid queue name format')
+    .max(255, 'Queue name must be at most 255 characters')
+    .required('Queue name is required'),
+  prefetch: yup
+    .number()
+    .integer('Prefetch must be a whole number')
+    .min(1, 'Prefetch must be at least 1')
+    .max(65535, 'Prefetch cannot exceed 65535'),
+});
+
+export const sqsQueueConfigSchema = yup.object({
+  brokerType: brokerTypeSchema,
+  region: yup
+    .string()
+    .matches(/^[a-z0-9-]+$/, 'Region can only contain lowercase letters, numbers and hyphens')
+    .required('Region is required'),
+  queueUrl: yup
+    .string()
+    .url('Must be a valid URL')
+    .required('Queue URL is required'),
+  // For SQS-compatible brokers such as ElasticMQ or LocalStack
+  endpoint: yup.string().url('Must be a valid URL').nullable(),
+  visibilityTimeout: yup
+    .number()
+    .integer('Visibility timeout must be a whole number of seconds')
+    .min(0, 'Visibility timeout cannot be negative')
+    .max(43200, 'Visibility timeout cannot exceed 12 hours'),
+  maxMessages: yup
+    .number()
+    .min(1, 'Must receive at least 1 message')
+    .max(10, 'SQS returns at most 10 messages at once'),
+});
+
+export const queueBrokerSchemas = {
+  generic: genericQueueConfigSchema,
+  kafka: kafkaQueueConfigSchema,
+  amqp: amqpQueueConfigSchema,
+  sqs: sqsQueueConfigSchema,
+};
+
+// Picks the schema for the broker type; unknown types fail on brokerType
+export const queueConfigSchema = yup.lazy((value?: { brokerType?: string }) =>
+  queueBrokerSchemas[(value?.brokerType ?? 'generic') as QueueBrokerType] ?? genericQueueConfigSchema
+);
+
+// MQTT topics: levels are separated by `/`. In a filter, `+` matches one whole
+// level and `#` matches the rest, so it can only be the last level.
+const MAX_MQTT_TOPIC_BYTES = 65535;
+
+const utf8Length = (value: string): number =>
+  Array.from(value).reduce((total, char) => {
+    const code = char.codePointAt(0) ?? 0;
+    return total + (code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4);
+  }, 0);
+
+const isMqttTopicLengthValid = (topic: string): boolean =>
+  topic.length > 0 && !topic.includes('\0') && utf8Length(topic) <= MAX_MQTT_TOPIC_BYTES;
+
+export const isValidMqttTopicFilter = (filter: string): boolean => {
+  if (!isMqttTopicLengthValid(filter)) return false;
+  const levels = filter.split('/');
+  return levels.every((level, index) => {
+    if (level.includes('#')) return level === '#' && index === levels.length - 1;
+    if (level.includes('+')) return level === '+';
+    return true;
+  });
+};
+
+// Topics that are published to, e.g. a last will, cannot contain wildcards
+export const isValidMqttTopicName = (topic: string): boolean =>
+  isMqttTopicLengthValid(topic) && !/[+#]/.test(topic);
+
+const mqttQosSchema = yup
+  .number()
+  .oneOf([0, 1, 2], 'QoS must be 0, 1 or 2');
+
+export const mqttConfigSchema = yup.object({
+  brokerUrl: yup
+    .string()
+    .matches(/^(mqtts?|wss?):\/\/[^\s/]+/, 'Must be an mqtt://, mqtts://, ws:// or wss:// URL')
+    .required('Broker URL is required')
+    .when('authType', (authType: string, schema: yup.StringSchema) =>
+      authType === 'certificate'
+        ? schema.matches(/^(mqtts|wss):\/\//, 'Certificate authentication needs an mqtts:// or wss:// URL')
+        : schema
+    ),
+  // MQTT over WebSocket endpoint used to test the connection from the browser
+  websocketUrl: yup
+    .string()
+    .matches(/^wss?:\/\//, { message: 'Must be a ws:// or wss:// URL', excludeEmptyString: true })
+    .nullable(),
+  topics: yup
+    .array(
+      yup
+        .string()
+        .required('Topic filter cannot be empty')
+        .test('mqtt-topic-filter', 'Invalid topic filter: ${value}', value =>
+          value == null || isValidMqttTopicFilter(value)
+        )
+    )
+    .min(1, 'Add at least one topic filter')
+    .required('Add at least one topic filter'),
+  qos: mqttQosSchema.required('QoS is required'),
+  clientId: yup
+    .string()
+    .when('cleanSession', (cleanSession: boolean | undefined, schema: yup.StringSchema) =>
+      cleanSession === false
+        ? schema.required('A persistent session needs a client ID')
+        : schema
+    ),
+  cleanSession: yup.boolean(),
+  keepAlive: yup
+    .number()
+    .min(0, 'Keep alive cannot be negative')
+    .max(65535, 'Keep alive cannot exceed 65535 seconds'),
+  authType: yup.string().oneOf(['none', 'password', 'certificate']),
+  username: yup
+    .string()
+    .when('authType', (authType: string, schema: yup.StringSchema) =>
+      authType === 'password' ? schema.required('Username is required') : schema
+    ),
+  password: yup.string().nullable(),
+  // References to certificates in the secret store, never the PEM itself
+  caCertificateRef: yup.string().nullable(),
+  clientCertificateRef: yup
+    .string()
+    .when('authType', (authType: string, schema: yup.StringSchema) =>
+      authType === 'certificate' ? schema.required('Client certificate is required') : schema
+    ),
+  clientKeyRef: yup
+    .string()
+    .when('authType', (authType: string, schema: yup.StringSchema) =>
+      authType === 'certificate' ? schema.required('Client key is required') : schema
+    ),
+  lastWill: yup
+    .object({
+      topic: yup
+        .string()
+        .required('Last will topic is required')
+        .test('mqtt-topic-name', 'Last will topic cannot be empty or contain + or #', value =>
+          value == null || isValidMqttTopicName(value)
+        ),
+      payload: yup.string(),
+      qos: mqttQosSchema,
+      retain: yup.boolean(),
+    })
+    .nullable()
+    .default(undefined),
+});
+
 // Validation helper functions
 export const validateDataSourceName = (name: string): string | null => {
   try {
@@ -1,8 +1,8 @@
-import { renderHook, waitFor } from '@testing-library/react';
+import { renderHook, waitFor, act } from '@testing-library/react';
 import { Provider } from 'react-redux';
-import { QueryClient, QueryClientProvider } from 'react-query';
-import { store } from '../../src/store';
+import { setupStore } from '../../src/store';
 import { useDataSources } from '../../src/hooks/useDataSources';
+import { useDataSourceList } from '../../src/hooks/useDataSourceList';
 import * as dataSourcesApi from '../../src/services/api/dataSources';
 
 // Mock the API module
@@ -30,28 +30,23 @@ const mockDataSources = [
 ];
 
 describe('Data Sources Integration', () => {
-  let queryClient: QueryClient;
+  let store: ReturnType<typeof setupStore>;
 
   beforeEach(() => {
-    queryClient = new QueryClient({
-      defaultOptions: {
-        queries: { retry: false },
-      },
-    });
+    // A fresh store per test so cached data never leaks between tests
+    store = setupStore();
     jest.clearAllMocks();
   });
 
   const wrapper = ({ children }: { children: React.ReactNode }) => (
     <Provider store={store}>
-      <QueryClientProvider client={queryClient}>
-        {children}
-      </QueryClientProvider>
+      {children}
     </Provider>
   );
 
   describe('useDataSources Hook', () => {
     it('should fetch data sources on mount', async () => {
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
 
       const { result } = renderHook(() => useDataSources(), { wrapper });
 
@@ -62,12 +57,12 @@ describe('Data Sources Integration', () => {
         expect(result.current.dataSources).toEqual(mockDataSources);
       });
 
-      expect(dataSourcesApi.fetchDataSources).toHaveBeenCalledTimes(1);
+      expect(dataSourcesApi.fetchAllDataSources).toHaveBeenCalledTimes(1);
     });
 
     it('should handle fetch errors', async () => {
       const error = new Error('Failed to fetch');
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockRejectedValue(error);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockRejectedValue(error);
 
       const { result } = renderHook(() => useDataSources(), { wrapper });
 
@@ -88,7 +83,7 @@ describe('Data Sources Integration', () => {
         updatedAt: '2024-01-03T00:00:00Z',
       };
 
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
       (dataSourcesApi.createDataSource as jest.Mock).mockResolvedValue(newDataSource);
 
       const { result } = renderHook(() => useDataSources(), { wrapper });
@@ -118,7 +113,7 @@ describe('Data Sources Integration', () => {
         name: 'Updated API',
       };
 
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
       (dataSourcesApi.updateDataSource as jest.Mock).mockResolvedValue(updatedDataSource);
 
       const { result } = renderHook(() => useDataSources(), { wrapper });
@@ -140,7 +135,7 @@ describe('Data Sources Integration', () => {
     });
 
     it('should delete a data source', async () => {
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
       (dataSourcesApi.deleteDataSource as jest.Mock).mockResolvedValue(undefined);
 
       const { result } = renderHook(() => useDataSources(), { wrapper });
@@ -157,9 +152,66 @@ describe('Data Sources Integration', () => {
     });
   });
 
+  describe('useDataSourceList Hook', () => {
+    it('should load the first page and append the next one', async () => {
+      (dataSourcesApi.fetchDataSources as jest.Mock)
+        .mockResolvedValueOnce({ items: [mockDataSources[0]], nextCursor: 'page-2', total: 2 })
+        .mockResolvedValueOnce({ items: [mockDataSources[1]], nextCursor: null, total: 2 });
+
+      const { result } = renderHook(
+        () => useDataSourceList({ protocol: 'http', sort: 'name', order: 'asc' }),
+        { wrapper }
+      );
+
+      await waitFor(() => {
+        expect(result.current.dataSources).toEqual([mockDataSources[0]]);
+      });
+      expect(result.current.hasMore).toBe(true);
+      expect(dataSourcesApi.fetchDataSources).toHaveBeenCalledWith(
+        expect.objectContaining({ protocol: 'http', sort: 'name', order: 'asc', cursor: undefined }),
+        expect.anything()
+      );
+
+      act(() => {
+        result.current.loadMore();
+      });
+
+      await waitFor(() => {
+        expect(result.current.dataSources).toEqual(mockDataSources);
+      });
+      expect(result.current.hasMore).toBe(false);
+      expect(dataSourcesApi.fetchDataSources).toHaveBeenLastCalledWith(
+        expect.objectContaining({ cursor: 'page-2' }),
+        expect.anything()
+      );
+    });
+
+    it('should start over when the query changes', async () => {
+      (dataSourcesApi.fetchDataSources as jest.Mock)
+        .mockResolvedValueOnce({ items: mockDataSources, nextCursor: null, total: 2 })
+        .mockResolvedValueOnce({ items: [mockDataSources[1]], nextCursor: null, total: 1 });
+
+      const { result, rerender } = renderHook(
+        ({ q }) => useDataSourceList({ q }),
+        { wrapper, initialProps: { q: '' } }
+      );
+
+      await waitFor(() => {
+        expect(result.current.total).toBe(2);
+      });
+
+      rerender({ q: 'socket' });
+
+      await waitFor(() => {
+        expect(result.current.dataSources).toEqual([mockDataSources[1]]);
+        expect(result.current.total).toBe(1);
+      });
+    });
+  });
+
   describe('Data Source State Management', () => {
     it('should maintain loading states correctly', async () => {
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
       (dataSourcesApi.createDataSource as jest.Mock).mockImplementation(
         () => new Promise(resolve => setTimeout(() => resolve(mockDataSources[0]), 100))
       );
@@ -184,7 +236,7 @@ describe('Data Sources Integration', () => {
     });
 
     it('should handle concurrent operations', async () => {
-      (dataSourcesApi.fetchDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
       (dataSourcesApi.updateDataSource as jest.Mock).mockResolvedValue(mockDataSources[0]);
       (dataSourcesApi.deleteDataSource as jest.Mock).mockResolvedValue(undefined);
 
@@ -206,5 +258,51 @@ describe('Data Sources Integration', () => {
       expect(dataSourcesApi.updateDataSource).toHaveBeenCalled();
       expect(dataSourcesApi.deleteDataSource).toHaveBeenCalled();
     });
+
+    it('should roll back an optimistic delete when the server rejects it', async () => {
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+      let rejectDelete: (error: Error) => void = () => undefined;
+      (dataSourcesApi.deleteDataSource as jest.Mock).mockImplementation(
+        () => new Promise((_, reject) => { rejectDelete = reject; })
+      );
+
+      const { result } = renderHook(() => useDataSources(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.deleteDataSource('1');
+      });
+
+      await waitFor(() => {
+        expect(result.current.dataSources.map(source => source.id)).toEqual(['2']);
+      });
+
+      act(() => {
+        rejectDelete(new Error('Forbidden'));
+      });
+
+      await waitFor(() => {
+        expect(result.current.rollbackNotice).toBe('Could not delete data source: Forbidden');
+      });
+      expect(result.current.dataSources).toEqual(mockDataSources);
+    });
+
+    it('should share one cache between hook instances', async () => {
+      (dataSourcesApi.fetchAllDataSources as jest.Mock).mockResolvedValue(mockDataSources);
+
+      const first = renderHook(() => useDataSources(), { wrapper });
+
+      await waitFor(() => {
+        expect(first.result.current.dataSources).toEqual(mockDataSources);
+      });
+
+      const second = renderHook(() => useDataSources(), { wrapper });
+
+      expect(second.result.current.dataSources).toEqual(mockDataSources);
+      expect(dataSourcesApi.fetchAllDataSources).toHaveBeenCalledTimes(1);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,255 @@
+import axios, { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { apiClient, createApiClient } from '../../src/services/api/client';
+import { AuthenticationError, RequestCancelledError } from '../../src/services/api/errors';
+import { ApiMiddleware, authMiddleware } from '../../src/services/api/middleware';
+import { getAuthToken, setAuthToken, removeAuthToken } from '../../src/services/auth/tokenService';
+import { authService } from '../../src/services/auth/authService';
+
+jest.mock('../../src/services/auth/tokenService', () => {
+  let token: string | null = null;
+  return {
+    getAuthToken: () => token,
+    setAuthToken: (value: string) => { token = value; },
+    removeAuthToken: () => { token = null; },
+  };
+});
+
+jest.mock('../../src/services/auth/authService', () => ({
+  authService: { getAccessToken: jest.fn() },
+}));
+
+type Handler = (config: InternalAxiosRequestConfig) => { status: number; data?: unknown };
+
+// Answers requests in memory; statuses >= 400 are rejected like axios does
+const useAdapter = (handler: Handler): jest.Mock => {
+  const adapter = jest.fn(async (config: InternalAxiosRequestConfig) => {
+    const { status, data = {} } = handler(config);
+    const response = { status, statusText: '', data, headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, {}, response);
+    }
+    return response;
+  });
+  axios.defaults.adapter = adapter as unknown as AxiosAdapter;
+  return adapter;
+};
+
+// Lets requests pass the async request interceptor and reach the adapter
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const authorization = (config: InternalAxiosRequestConfig): unknown => config.headers?.Authorization;
+
+describe('ApiClient', () => {
+  const originalAdapter = axios.defaults.adapter;
+  const originalLocation = window.location;
+
+  beforeEach(() => {
+    removeAuthToken();
+    delete (window as any).location;
+    (window as any).location = { pathname: '/data-sources', search: '?q=orders', hash: '#top', href: '' };
+  });
+
+  afterEach(() => {
+    axios.defaults.adapter = originalAdapter;
+    (window as any).location = originalLocation;
+  });
+
+  describe('token refresh', () => {
+    it('should share one refresh between requests that fail with 401', async () => {
+      setAuthToken('expired');
+      const adapter = useAdapter(config =>
+        authorization(config) === 'Bearer fresh' ? { status: 200, data: config.url } : { status: 401 }
+      );
+      const refresher = jest.fn().mockResolvedValue('fresh');
+      const client = createApiClient({
+        baseURL: 'http://api.test',
+        middleware: [authMiddleware],
+        tokenRefresher: refresher,
+      });
+
+      const results = await Promise.all([client.get('/a'), client.get('/b')]);
+
+      expect(results).toEqual(['/a', '/b']);
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(getAuthToken()).toBe('fresh');
+      expect(adapter).toHaveBeenCalledTimes(4);
+    });
+
+    it('should replay a request only once and then send the user to login', async () => {
+      const adapter = useAdapter(() => ({ status: 401 }));
+      const client = createApiClient({ baseURL: 'http://api.test' });
+      const refresher = jest.fn().mockResolvedValue('still-rejected');
+      client.setTokenRefresher(refresher);
+
+      await expect(client.post('/data-sources', {})).rejects.toBeInstanceOf(AuthenticationError);
+
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(adapter).toHaveBeenCalledTimes(2);
+      expect(window.location.href).toBe('/login?returnTo=%2Fdata-sources%3Fq%3Dorders%23top');
+      expect(getAuthToken()).toBeNull();
+    });
+
+    it('should renew the shared client\'s token through the auth service', async () => {
+      const adapter = useAdapter(config =>
+        authorization(config) === 'Bearer fresh' ? { status: 200, data: config.url } : { status: 401 }
+      );
+      jest.mocked(authService.getAccessToken).mockResolvedValueOnce('fresh');
+
+      // The shared client took axios' adapter before the test replaced it
+      await expect(apiClient.get('/data-sources', { adapter: adapter as unknown as AxiosAdapter }))
+        .resolves.toBe('/data-sources');
+
+      expect(authService.getAccessToken).toHaveBeenCalledWith(true);
+      expect(window.location.href).toBe('');
+    });
+
+    it('should go to login with the current page when no refresher is set', async () => {
+      useAdapter(() => ({ status: 401 }));
+      const client = createApiClient({ baseURL: 'http://api.test' });
+
+      await expect(client.get('/data-sources')).rejects.toBeInstanceOf(AuthenticationError);
+
+      expect(window.location.href).toBe('/login?returnTo=%2Fdata-sources%3Fq%3Dorders%23top');
+    });
+  });
+
+  describe('GET de-duplication', () => {
+    // Holds every request until the test answers it; aborting rejects like axios does
+    const useManualAdapter = () => {
+      const answers: Array<(data: unknown) => void> = [];
+      const adapter = jest.fn((config: InternalAxiosRequestConfig) =>
+        new Promise((resolve, reject) => {
+          config.signal?.addEventListener?.('abort', () => reject(new axios.CanceledError()));
+          answers.push(data => resolve({ status: 200, statusText: '', data, headers: {}, config }));
+        })
+      );
+      axios.defaults.adapter = adapter as unknown as AxiosAdapter;
+      return { adapter, answer: (data: unknown) => answers.forEach(answer => answer(data)) };
+    };
+
+    const signalOf = (adapter: jest.Mock): AbortSignal => adapter.mock.calls[0][0].signal;
+
+    it('should share one request between identical GETs', async () => {
+      const { adapter, answer } = useManualAdapter();
+      const client = createApiClient({ baseURL: 'http://api.test' });
+
+      const first = client.get('/data-sources', { params: { page: 1 } });
+      const second = client.get('/data-sources', { params: { page: 1 } });
+      await flush();
+      answer(['orders']);
+
+      await expect(Promise.all([first, second])).resolves.toEqual([['orders'], ['orders']]);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the request going while another caller still waits for it', async () => {
+      const { adapter, answer } = useManualAdapter();
+      const client = createApiClient({ baseURL: 'http://api.test' });
+      const leaving = new AbortController();
+
+      const first = client.get('/data-sources', { signal: leaving.signal });
+      const second = client.get('/data-sources', { signal: new AbortController().signal });
+      await flush();
+      leaving.abort();
+      answer(['orders']);
+
+      await expect(first).rejects.toBeInstanceOf(RequestCancelledError);
+      await expect(second).resolves.toEqual(['orders']);
+      expect(signalOf(adapter).aborted).toBe(false);
+    });
+
+    it('should cancel the request when the last caller aborts', async () => {
+      const { adapter } = useManualAdapter();
+      const client = createApiClient({ baseURL: 'http://api.test' });
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const requests = [
+        client.get('/data-sources', { signal: first.signal }),
+        client.get('/data-sources', { signal: second.signal }),
+      ];
+      await flush();
+      first.abort();
+      second.abort();
+
+      await expect(Promise.all(requests)).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(signalOf(adapter).aborted).toBe(true);
+
+      // The next identical GET starts a new request instead of joining the cancelled one
+      client.get('/data-sources').catch(() => undefined);
+      await flush();
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting to retry once the request is cancelled', async () => {
+      const adapter = useAdapter(() => ({ status: 503 }));
+      const client = createApiClient({
+        baseURL: 'http://api.test',
+        retry: { baseDelay: 60000, maxDelay: 60000, jitter: 'none' },
+      });
+      const controller = new AbortController();
+
+      const request = client.get('/data-sources', { signal: controller.signal });
+      await flush();
+      controller.abort();
+
+      await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('middleware', () => {
+    // Records each hook it runs in `calls`
+    const recording = (name: string, calls: string[]): ApiMiddleware => ({
+      name,
+      onRequest: config => {
+        calls.push(`request:${name}`);
+        return config;
+      },
+      onResponse: response => {
+        calls.push(`response:${name}`);
+        return response;
+      },
+    });
+
+    it('should run requests in registration order and responses in reverse', async () => {
+      useAdapter(() => ({ status: 200 }));
+      const calls: string[] = [];
+      const client = createApiClient({
+        baseURL: 'http://api.test',
+        middleware: [recording('first', calls), recording('second', calls)],
+      });
+
+      await client.post('/data-sources', {});
+
+      expect(calls).toEqual(['request:first', 'request:second', 'response:second', 'response:first']);
+    });
+
+    it('should replace a middleware with the same name in place', async () => {
+      useAdapter(() => ({ status: 200 }));
+      const calls: string[] = [];
+      const client = createApiClient({
+        baseURL: 'http://api.test',
+        middleware: [recording('first', calls), recording('second', calls)],
+      });
+
+      client.use({ name: 'first', onRequest: config => { calls.push('request:replaced'); return config; } });
+      await client.post('/data-sources', {});
+
+      expect(calls).toEqual(['request:replaced', 'request:second', 'response:second']);
+    });
+
+    it('should stop running a middleware once it is ejected', async () => {
+      useAdapter(() => ({ status: 200 }));
+      const calls: string[] = [];
+      const client = createApiClient({ baseURL: 'http://api.test', middleware: [recording('first', calls)] });
+      const remove = client.use(recording('second', calls));
+
+      remove();
+      client.eject('first');
+      await client.post('/data-sources', {});
+
+      expect(calls).toEqual([]);
+    });
+  });
+});
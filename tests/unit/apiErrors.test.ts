@@ -0,0 +1,131 @@
+import { AxiosError } from 'axios';
+import {
+  ApiError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  createApiError,
+  serializeApiError,
+  deserializeApiError,
+} from '../../src/services/api/errors';
+
+const makeResponseError = (
+  status: number,
+  data: unknown = {},
+  headers: Record<string, string> = {}
+): AxiosError =>
+  ({
+    isAxiosError: true,
+    message: `Request failed with status code ${status}`,
+    response: { status, data, headers },
+  } as unknown as AxiosError);
+
+describe('createApiError', () => {
+  it('should map 422 responses with a field list onto ValidationError', () => {
+    const error = createApiError(
+      makeResponseError(422, {
+        message: 'Invalid data source',
+        errors: [{ field: 'connectionDetails.url', message: 'URL is required' }],
+      })
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(422);
+    expect(error.code).toBe('VALIDATION_FAILED');
+    expect((error as ValidationError).fieldErrors).toEqual([
+      { field: 'connectionDetails.url', message: 'URL is required', code: undefined },
+    ]);
+  });
+
+  it('should accept field errors given as a map', () => {
+    const error = createApiError(
+      makeResponseError(400, { errors: { name: ['Name is already taken'] } })
+    ) as ValidationError;
+
+    expect(error.fieldErrors).toEqual([{ field: 'name', message: 'Name is already taken' }]);
+  });
+
+  it('should map status codes onto distinct error classes', () => {
+    expect(createApiError(makeResponseError(403))).toBeInstanceOf(PermissionError);
+    expect(createApiError(makeResponseError(404))).toBeInstanceOf(NotFoundError);
+    expect(createApiError(makeResponseError(504))).toBeInstanceOf(TimeoutError);
+    expect(createApiError(makeResponseError(500))).toBeInstanceOf(ServerError);
+  });
+
+  it('should map version conflicts onto ConflictError with the server copy', () => {
+    const current = { id: '1', name: 'Renamed upstream', version: 4 };
+    const error = createApiError(makeResponseError(412, { message: 'Version mismatch', current }));
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.code).toBe('CONFLICT');
+    expect((error as ConflictError).current).toEqual(current);
+    expect(createApiError(makeResponseError(409))).toBeInstanceOf(ConflictError);
+  });
+
+  it('should keep the server message, code and request id', () => {
+    const error = createApiError(
+      makeResponseError(404, { message: 'Data source not found', code: 'DS_NOT_FOUND' }, {
+        'x-request-id': 'req-123',
+      })
+    );
+
+    expect(error.message).toBe('Data source not found');
+    expect(error.code).toBe('DS_NOT_FOUND');
+    expect(error.requestId).toBe('req-123');
+  });
+
+  it('should report requests without a response as network errors', () => {
+    const error = createApiError({ isAxiosError: true, request: {} } as AxiosError);
+    expect(error).toBeInstanceOf(NetworkError);
+  });
+
+  it('should report aborted connections as timeouts', () => {
+    const error = createApiError({
+      isAxiosError: true,
+      code: 'ECONNABORTED',
+      request: {},
+    } as AxiosError);
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+});
+
+describe('serializeApiError', () => {
+  it('should round-trip field errors and conflict payloads', () => {
+    const validation = new ValidationError('Invalid', [{ field: 'name', message: 'Too short' }], {
+      status: 422,
+    });
+    const conflict = new ConflictError('Conflict', { id: '1', version: 2 }, { status: 409 });
+
+    const restoredValidation = deserializeApiError(serializeApiError(validation));
+    const restoredConflict = deserializeApiError(serializeApiError(conflict));
+
+    expect(restoredValidation).toBeInstanceOf(ValidationError);
+    expect((restoredValidation as ValidationError).fieldErrors).toEqual(validation.fieldErrors);
+    expect(restoredConflict).toBeInstanceOf(ConflictError);
+    expect((restoredConflict as ConflictError).current).toEqual({ id: '1', version: 2 });
+    expect(restoredConflict.status).toBe(409);
+  });
+
+  it('should restore every error class by its literal name', () => {
+    const errors: [ApiError, string][] = [
+      [new ApiError('Failed'), 'ApiError'],
+      [new PermissionError('Forbidden', { status: 403 }), 'PermissionError'],
+      [new NotFoundError('Missing', { status: 404 }), 'NotFoundError'],
+      [new ServerError('Broken', { status: 500 }), 'ServerError'],
+      [new TimeoutError('Slow'), 'TimeoutError'],
+      [new NetworkError('Offline'), 'NetworkError'],
+      [new ConflictError('Conflict', null), 'ConflictError'],
+    ];
+
+    errors.forEach(([error, name]) => {
+      const serialized = serializeApiError(error);
+      expect(serialized.name).toBe(name);
+      expect(deserializeApiError(serialized)).toBeInstanceOf(error.constructor);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { configureStore } from '@reduxjs/toolkit';
+import dataSourcesReducer, {
+  BULK_BATCH_SIZE,
+  runBulkActionThunk,
+} from '../../src/store/slices/dataSourcesSlice';
+import outboxReducer from '../../src/store/slices/outboxSlice';
+import * as dataSourcesApi from '../../src/services/api/dataSources';
+import { ServerError } from '../../src/services/api/errors';
+
+jest.mock('../../src/services/api/dataSources');
+
+const api = dataSourcesApi as jest.Mocked<typeof dataSourcesApi>;
+
+const makeStore = () =>
+  configureStore({ reducer: { dataSources: dataSourcesReducer, outbox: outboxReducer } });
+
+const ids = (count: number) => Array.from({ length: count }, (_, index) => `ds-${index + 1}`);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('runBulkActionThunk', () => {
+  it('should send the ids in batches and record each result', async () => {
+    api.bulkDataSourceAction.mockImplementation(async ({ ids: batch }) => ({
+      results: batch.map(id => ({ id, success: true })),
+    }));
+    const store = makeStore();
+
+    await store.dispatch(runBulkActionThunk({ action: { type: 'enable' }, ids: ids(BULK_BATCH_SIZE + 2) }));
+
+    expect(api.bulkDataSourceAction).toHaveBeenCalledTimes(2);
+    expect(api.bulkDataSourceAction.mock.calls[1][0].ids).toEqual(['ds-11', 'ds-12']);
+    const { items, running } = store.getState().dataSources.bulk;
+    expect(running).toBe(false);
+    expect(Object.values(items).every(item => item.status === 'success')).toBe(true);
+  });
+
+  it('should fail ids the server left out of its response', async () => {
+    api.bulkDataSourceAction.mockResolvedValueOnce({ results: [{ id: 'ds-1', success: true }] });
+    const store = makeStore();
+
+    await store.dispatch(runBulkActionThunk({ action: { type: 'disable' }, ids: ids(2) }));
+
+    expect(store.getState().dataSources.bulk.items).toEqual({
+      'ds-1': expect.objectContaining({ status: 'success' }),
+      'ds-2': expect.objectContaining({ status: 'failed', error: 'No result from server' }),
+    });
+  });
+
+  it('should fail the whole batch when its request fails and carry on with the next', async () => {
+    api.bulkDataSourceAction
+      .mockRejectedValueOnce(new ServerError('Bulk endpoint unavailable', { status: 503 }))
+      .mockResolvedValueOnce({ results: [{ id: 'ds-11', success: true }] });
+    const store = makeStore();
+
+    await store.dispatch(runBulkActionThunk({ action: { type: 'delete' }, ids: ids(BULK_BATCH_SIZE + 1) }));
+
+    const { items } = store.getState().dataSources.bulk;
+    expect(items['ds-1']).toEqual(expect.objectContaining({ status: 'failed', error: 'Bulk endpoint unavailable' }));
+    expect(items['ds-11'].status).toBe('success');
+  });
+});
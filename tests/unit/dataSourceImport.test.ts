@@ -0,0 +1,166 @@
+import {
+  parseCsv,
+  parseImportFile,
+  buildImportRows,
+  suggestImportName,
+  getImportPlan,
+} from '../../src/utils/dataSourceImport';
+import { prepareExport, serializeExport } from '../../src/utils/dataSourceExport';
+import { DataSource } from '../../src/services/api/dataSources';
+
+const existing: DataSource = {
+  id: 'ds-1',
+  name: 'Orders API',
+  protocol: 'http',
+  connectionDetails: { url: 'https://orders.example.com', method: 'GET' },
+  version: 3,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+describe('parseImportFile', () => {
+  it('should read CSV rows with nested connection details and tag lists', () => {
+    const csv = [
+      'name,protocol,tags,connectionDetails.url,connectionDetails.method',
+      'Orders API,http,billing;core,"https://orders.example.com/v1?a=1,2",POST',
+    ].join('\n');
+
+    expect(parseImportFile(csv, 'csv')).toEqual([
+      {
+        name: 'Orders API',
+        protocol: 'http',
+        tags: ['billing', 'core'],
+        connectionDetails: { url: 'https://orders.example.com/v1?a=1,2', method: 'POST' },
+      },
+    ]);
+  });
+
+  it('should accept YAML with a dataSources list', () => {
+    const yamlContent = [
+      'dataSources:',
+      '  - name: Prices',
+      '    protocol: websocket',
+      '    connectionDetails:',
+      '      url: wss://prices.example.com',
+    ].join('\n');
+
+    expect(parseImportFile(yamlContent, 'yaml')).toHaveLength(1);
+  });
+
+  it('should reject files that are not a list of data sources', () => {
+    expect(() => parseImportFile('{"name": "x"}', 'json')).toThrow(/list of data sources/);
+    expect(() => parseImportFile('{', 'json')).toThrow(/Invalid JSON/);
+  });
+
+  it('should handle quoted cells with doubled quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"say ""hi""","two\nlines"\r\n')).toEqual([
+      ['a', 'b'],
+      ['say "hi"', 'two\nlines'],
+    ]);
+  });
+});
+
+describe('buildImportRows', () => {
+  it('should validate rows against the protocol schema', () => {
+    const [row] = buildImportRows(
+      [{ name: 'Broken', protocol: 'websocket', connectionDetails: { url: 'https://not-a-socket' } }],
+      []
+    );
+
+    expect(row.config).toBeNull();
+    expect(row.errors.map(error => error.path)).toContain('connectionDetails.url');
+  });
+
+  it('should match existing sources by name and diff them', () => {
+    const [row] = buildImportRows(
+      [{
+        name: 'orders api',
+        protocol: 'http',
+        connectionDetails: { url: 'https://orders.example.com', method: 'POST' },
+      }],
+      [existing]
+    );
+
+    expect(row.existing).toBe(existing);
+    expect(row.resolution).toBe('skip');
+    expect(row.changes).toEqual([
+      expect.objectContaining({ path: 'connectionDetails.method', before: 'GET', after: 'POST' }),
+      expect.objectContaining({ path: 'name', before: 'Orders API', after: 'orders api' }),
+    ]);
+  });
+
+  it('should flag names repeated within the file', () => {
+    const record = {
+      name: 'Feed',
+      protocol: 'http',
+      connectionDetails: { url: 'https://feed.example.com', method: 'GET' },
+    };
+    const rows = buildImportRows([record, record], []);
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors[0].message).toMatch(/more than once/);
+  });
+});
+
+describe('getImportPlan', () => {
+  it('should apply each row resolution', () => {
+    const config = {
+      name: 'Orders API',
+      protocol: 'http' as const,
+      connectionDetails: { url: 'https://orders.example.com' },
+    };
+    const base = { config, errors: [], existing, changes: [] };
+
+    const plan = getImportPlan([
+      { ...base, index: 0, resolution: 'skip' },
+      { ...base, index: 1, resolution: 'overwrite' },
+      { ...base, index: 2, resolution: 'rename', renameTo: 'Orders API-2' },
+    ]);
+
+    expect(plan.overwrites).toEqual([{ index: 1, id: 'ds-1', config: { ...config, version: 3 } }]);
+    expect(plan.creates).toEqual([{ index: 2, config: { ...config, name: 'Orders API-2' } }]);
+  });
+
+  it('should suggest the first free name', () => {
+    expect(suggestImportName('Feed', new Set(['feed-2']))).toBe('Feed-3');
+  });
+});
+
+describe('export round trip', () => {
+  const secured: DataSource = {
+    ...existing,
+    connectionDetails: {
+      url: 'https://orders.example.com',
+      method: 'GET',
+      headers: { Authorization: 'Bearer live-token' },
+    },
+  };
+
+  it.each(['redact', 'reference'] as const)(
+    'should keep the current secrets when overwriting from a %s export',
+    handling => {
+      const exported = prepareExport([secured], handling);
+      const records = parseImportFile(serializeExport(exported.dataSources, 'json'), 'json');
+
+      const rows = buildImportRows(records, [secured]);
+      const plan = getImportPlan([{ ...rows[0], resolution: 'overwrite' }]);
+
+      expect(rows[0].changes).toEqual([]);
+      expect(plan.overwrites[0].config.connectionDetails.headers).toEqual({
+        Authorization: 'Bearer live-token',
+      });
+    }
+  );
+
+  it('should reject placeholders without an existing secret to keep', () => {
+    const exported = prepareExport([secured], 'redact');
+    const records = parseImportFile(serializeExport(exported.dataSources, 'json'), 'json');
+
+    const [row] = buildImportRows(records, []);
+
+    expect(row.errors).toEqual([
+      { path: 'connectionDetails.headers.Authorization', message: 'Secret placeholder has no current value to keep' },
+    ]);
+    expect(getImportPlan([row]).creates).toEqual([]);
+  });
+});
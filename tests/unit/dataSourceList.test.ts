@@ -0,0 +1,79 @@
+import { configureStore } from '@reduxjs/toolkit';
+import dataSourcesReducer, {
+  createDataSourceThunk,
+  fetchDataSourcePageThunk,
+  selectDataSourceListItems,
+} from '../../src/store/slices/dataSourcesSlice';
+import outboxReducer from '../../src/store/slices/outboxSlice';
+import * as dataSourcesApi from '../../src/services/api/dataSources';
+import { DataSource, DataSourceQuery } from '../../src/services/api/dataSources';
+import { ServerError } from '../../src/services/api/errors';
+
+jest.mock('../../src/services/api/dataSources');
+
+const api = dataSourcesApi as jest.Mocked<typeof dataSourcesApi>;
+
+const makeDataSource = (name: string, protocol: DataSource['protocol'] = 'http'): DataSource => ({
+  id: name.toLowerCase(),
+  name,
+  protocol,
+  connectionDetails: { url: `https://${name.toLowerCase()}.example.com` },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+const query: DataSourceQuery = { protocol: 'http', sort: 'name', order: 'asc' };
+
+const loadList = async (items: DataSource[], nextCursor: string | null = null) => {
+  const store = configureStore({ reducer: { dataSources: dataSourcesReducer, outbox: outboxReducer } });
+  api.fetchDataSources.mockResolvedValueOnce({ items, nextCursor, total: items.length });
+  await store.dispatch(fetchDataSourcePageThunk({ query }));
+  return store;
+};
+
+const listedNames = (store: Awaited<ReturnType<typeof loadList>>) =>
+  selectDataSourceListItems(store.getState()).map(item => item.name);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('data source list', () => {
+  it('should show an optimistic create at its sorted position and keep it once saved', async () => {
+    const store = await loadList([makeDataSource('Alpha'), makeDataSource('Charlie')]);
+    let save: (source: DataSource) => void = () => undefined;
+    api.createDataSource.mockReturnValueOnce(new Promise(resolve => { save = resolve; }));
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...bravo } = makeDataSource('Bravo');
+
+    const request = store.dispatch(createDataSourceThunk(bravo));
+
+    expect(listedNames(store)).toEqual(['Alpha', 'Bravo', 'Charlie']);
+    expect(store.getState().dataSources.list.total).toBe(3);
+
+    save(makeDataSource('Bravo'));
+    await request;
+    expect(store.getState().dataSources.list.ids).toEqual(['alpha', 'bravo', 'charlie']);
+  });
+
+  it('should leave creates out of lists they do not match', async () => {
+    const store = await loadList([makeDataSource('Alpha')], 'next-page');
+    api.createDataSource.mockReturnValue(new Promise(() => undefined));
+
+    store.dispatch(createDataSourceThunk({ name: 'Beta', protocol: 'grpc', connectionDetails: {} }));
+    // Sorts after the loaded page, so the next page brings it
+    store.dispatch(createDataSourceThunk({ name: 'Zulu', protocol: 'http', connectionDetails: {} }));
+
+    expect(listedNames(store)).toEqual(['Alpha']);
+    expect(store.getState().dataSources.list.total).toBe(1);
+  });
+
+  it('should take a failed create back out of the list', async () => {
+    const store = await loadList([makeDataSource('Alpha')]);
+    api.createDataSource.mockRejectedValueOnce(new ServerError('Unavailable', { status: 500 }));
+
+    await store.dispatch(createDataSourceThunk({ name: 'Bravo', protocol: 'http', connectionDetails: {} }));
+
+    expect(store.getState().dataSources.list.ids).toEqual(['alpha']);
+    expect(store.getState().dataSources.list.total).toBe(1);
+  });
+});
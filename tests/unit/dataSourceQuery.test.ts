@@ -0,0 +1,116 @@
+import {
+  parseDataSourceQuery,
+  formatDataSourceQuery,
+  toDataSourceQuery,
+  fromDataSourceQuery,
+  matchesDataSourceFilter,
+  getQuerySuggestions,
+} from '../../src/utils/dataSourceQuery';
+import { DataSource } from '../../src/services/api/dataSources';
+
+const source: DataSource = {
+  id: '1',
+  name: 'Orders API',
+  description: 'Billing orders feed',
+  protocol: 'grpc',
+  connectionDetails: {},
+  tags: ['billing', 'team a'],
+  status: 'error',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+describe('parseDataSourceQuery', () => {
+  it('should parse fields, tags and quoted free text', () => {
+    const { filter, errors } = parseDataSourceQuery(
+      'protocol:grpc status:error tag:billing tag:"team a" "orders api"'
+    );
+
+    expect(errors).toEqual([]);
+    expect(filter).toEqual({
+      text: ['orders api'],
+      protocol: 'grpc',
+      status: 'error',
+      tags: ['billing', 'team a'],
+    });
+  });
+
+  it('should report unknown values with their position', () => {
+    const { errors } = parseDataSourceQuery('orders protocol:ftp');
+
+    expect(errors).toEqual([{ message: 'Unknown protocol "ftp"', start: 7, end: 19 }]);
+  });
+
+  it('should treat words before a colon that are not fields as free text', () => {
+    const { filter, errors } = parseDataSourceQuery('https://api.example.com owner:"me"');
+
+    expect(errors).toEqual([]);
+    expect(filter.text).toEqual(['https://api.example.com', 'owner:me']);
+  });
+
+  it('should round-trip through formatDataSourceQuery', () => {
+    const input = 'protocol:queue tag:"team a" orders';
+    const { filter } = parseDataSourceQuery(input);
+
+    expect(formatDataSourceQuery(filter)).toBe(input);
+  });
+});
+
+describe('toDataSourceQuery', () => {
+  it('should map the filter onto API query params', () => {
+    const { filter } = parseDataSourceQuery('status:active tag:billing tag:ops "orders api" feed');
+
+    expect(toDataSourceQuery(filter)).toEqual({
+      q: '"orders api" feed',
+      protocol: undefined,
+      status: 'active',
+      tag: 'billing',
+    });
+  });
+});
+
+describe('fromDataSourceQuery', () => {
+  it('should keep a multi-word search the same through the URL and back', () => {
+    const { filter } = parseDataSourceQuery('orders api');
+    const restored = fromDataSourceQuery(toDataSourceQuery(filter));
+
+    expect(restored.text).toEqual(['orders', 'api']);
+    expect(formatDataSourceQuery(restored)).toBe('orders api');
+    expect(matchesDataSourceFilter(source, restored)).toBe(true);
+  });
+
+  it('should keep quoted phrases and field-like words as free text', () => {
+    const { filter } = parseDataSourceQuery('"orders api" https://orders.example.com');
+    const restored = fromDataSourceQuery(toDataSourceQuery(filter));
+
+    expect(restored.text).toEqual(['orders api', 'https://orders.example.com']);
+    expect(formatDataSourceQuery(restored)).toBe('"orders api" https://orders.example.com');
+    const withUrl = { ...source, description: 'Served from https://orders.example.com' };
+    expect(matchesDataSourceFilter(withUrl, restored)).toBe(true);
+    expect(matchesDataSourceFilter({ ...withUrl, name: 'API orders' }, restored)).toBe(false);
+  });
+});
+
+describe('matchesDataSourceFilter', () => {
+  it('should require every term and tag to match', () => {
+    expect(matchesDataSourceFilter(source, parseDataSourceQuery('tag:billing orders').filter)).toBe(true);
+    expect(matchesDataSourceFilter(source, parseDataSourceQuery('tag:billing tag:ops').filter)).toBe(false);
+    expect(matchesDataSourceFilter(source, parseDataSourceQuery('protocol:http').filter)).toBe(false);
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  it('should suggest field names for a partial token', () => {
+    expect(getQuerySuggestions('orders st')).toEqual([
+      { label: 'status:', value: 'orders status:' },
+    ]);
+  });
+
+  it('should suggest values for a field, including known tags', () => {
+    expect(getQuerySuggestions('protocol:g').map(item => item.value)).toEqual(['protocol:grpc ']);
+    expect(getQuerySuggestions('tag:', { tags: ['billing', 'team a'] }).map(item => item.value)).toEqual([
+      'tag:billing ',
+      'tag:"team a" ',
+    ]);
+  });
+});
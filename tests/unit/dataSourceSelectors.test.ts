@@ -0,0 +1,50 @@
+import dataSourcesReducer, {
+  fetchDataSourcesThunk,
+  selectDataSourcesByTag,
+  selectDataSourcesGroupedByTag,
+} from '../../src/store/slices/dataSourcesSlice';
+import { DataSource } from '../../src/services/api/dataSources';
+
+const makeDataSource = (id: string, tags?: string[]): DataSource => ({
+  id,
+  name: id,
+  protocol: 'http',
+  connectionDetails: { url: `https://${id}.example.com` },
+  tags,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+const stateWith = (dataSources: DataSource[]) => {
+  const loading = dataSourcesReducer(undefined, fetchDataSourcesThunk.pending('request-1'));
+  return { dataSources: dataSourcesReducer(loading, fetchDataSourcesThunk.fulfilled(dataSources, 'request-1')) };
+};
+
+describe('tag selectors', () => {
+  const state = stateWith([
+    makeDataSource('orders', ['Prod', 'billing']),
+    makeDataSource('prices', ['prod']),
+    makeDataSource('scratch'),
+  ]);
+
+  it('should find data sources by tag regardless of case', () => {
+    expect(selectDataSourcesByTag('PROD')(state).map(item => item.id)).toEqual(['orders', 'prices']);
+  });
+
+  it('should put tags that differ only in case into one group', () => {
+    const groups = selectDataSourcesGroupedByTag(state);
+
+    expect(groups.map(group => [group.tag, group.dataSources.map(item => item.id)])).toEqual([
+      ['billing', ['orders']],
+      ['prod', ['orders', 'prices']],
+      [null, ['scratch']],
+    ]);
+  });
+
+  it('should list a data source once even when it repeats a tag in another case', () => {
+    const groups = selectDataSourcesGroupedByTag(stateWith([makeDataSource('orders', ['prod', 'PROD'])]));
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].dataSources).toHaveLength(1);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  planDataSourceSync,
+  applySyncPlan,
+  formatSyncPlan,
+} from '../../src/services/sync/dataSourceSync';
+import * as dataSourcesApi from '../../src/services/api/dataSources';
+import { DataSource } from '../../src/services/api/dataSources';
+import { REDACTED } from '../../src/utils/dataSourceExport';
+
+jest.mock('../../src/services/api/dataSources');
+
+const orders: DataSource = {
+  id: 'ds-1',
+  name: 'Orders API',
+  protocol: 'http',
+  connectionDetails: {
+    url: 'https://orders.example.com',
+    method: 'GET',
+    headers: { Authorization: 'Bearer live-token' },
+  },
+  enabled: true,
+  version: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const legacy: DataSource = {
+  id: 'ds-2',
+  name: 'Legacy Feed',
+  protocol: 'websocket',
+  connectionDetails: { url: 'wss://legacy.example.com' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const desiredOrders = {
+  name: 'Orders API',
+  protocol: 'http',
+  connectionDetails: {
+    url: 'https://orders.example.com',
+    method: 'POST',
+    headers: { Authorization: REDACTED },
+  },
+};
+
+const desiredPrices = {
+  name: 'Prices',
+  protocol: 'websocket',
+  connectionDetails: { url: 'wss://prices.example.com' },
+};
+
+describe('planDataSourceSync', () => {
+  it('should plan creates, updates and pruned deletes in apply order', () => {
+    const plan = planDataSourceSync([desiredOrders, desiredPrices], [orders, legacy], { prune: true });
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes.map(change => `${change.type} ${change.name}`)).toEqual([
+      'create Prices',
+      'update Orders API',
+      'delete Legacy Feed',
+    ]);
+  });
+
+  it('should keep redacted secrets at their current value', () => {
+    const plan = planDataSourceSync([desiredOrders], [orders]);
+    const update = plan.changes[0];
+
+    expect(update.type === 'update' && update.changes.map(change => change.path)).toEqual([
+      'connectionDetails.method',
+    ]);
+    expect(update.type === 'update' && update.config.connectionDetails.headers.Authorization)
+      .toBe('Bearer live-token');
+  });
+
+  it('should only delete when pruning', () => {
+    const plan = planDataSourceSync([], [legacy]);
+
+    expect(plan.changes).toEqual([]);
+    expect(formatSyncPlan(plan)).toContain('0 to create, 0 to update, 0 to delete, 0 unchanged');
+  });
+
+  it('should report invalid definitions', () => {
+    const plan = planDataSourceSync([{ name: 'No protocol' }, 'not an object'], []);
+
+    expect(plan.errors[0].index).toBe(0);
+    expect(plan.errors[0].name).toBe('No protocol');
+    expect(plan.errors[0].errors.map(error => error.path)).toContain('protocol');
+    expect(plan.errors[1].name).toBeUndefined();
+  });
+});
+
+describe('applySyncPlan', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should roll back applied changes when a later change fails', async () => {
+    (dataSourcesApi.createDataSource as jest.Mock).mockResolvedValue({ ...legacy, id: 'ds-3', name: 'Prices' });
+    (dataSourcesApi.updateDataSource as jest.Mock).mockRejectedValue(new Error('Version conflict'));
+    (dataSourcesApi.deleteDataSource as jest.Mock).mockResolvedValue(undefined);
+
+    const plan = planDataSourceSync([desiredOrders, desiredPrices], [orders, legacy], { prune: true });
+    const report = await applySyncPlan(plan);
+
+    expect(report.status).toBe('rolled-back');
+    expect(report.results.map(result => result.status)).toEqual(['rolled-back', 'failed', 'skipped']);
+    // The created data source is deleted again; the pruned one was never touched
+    expect(dataSourcesApi.deleteDataSource).toHaveBeenCalledTimes(1);
+    expect(dataSourcesApi.deleteDataSource).toHaveBeenCalledWith('ds-3');
+  });
+
+  it('should refuse plans with invalid definitions', async () => {
+    const plan = planDataSourceSync([{ name: 'No protocol' }], []);
+
+    await expect(applySyncPlan(plan)).rejects.toThrow(/invalid/);
+    expect(dataSourcesApi.createDataSource).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { createEventStreamParser, ServerSentEvent } from '../../src/services/realtime/eventStream';
+
+const parse = (chunks: string[]) => {
+  const events: ServerSentEvent[] = [];
+  const retries: number[] = [];
+  const ids: string[] = [];
+  const parser = createEventStreamParser({
+    onEvent: event => events.push(event),
+    onRetry: delay => retries.push(delay),
+    onId: id => ids.push(id),
+  });
+  chunks.forEach(chunk => parser.push(chunk));
+  return { events, retries, ids };
+};
+
+describe('createEventStreamParser', () => {
+  it('should dispatch events at blank lines with type, data and id', () => {
+    const { events } = parse(['event: price\nid: 7\ndata: {"symbol":"ACME"}\n\ndata: plain\n\n']);
+
+    expect(events).toEqual([
+      { type: 'price', data: '{"symbol":"ACME"}', lastEventId: '7' },
+      { type: 'message', data: 'plain', lastEventId: '7' },
+    ]);
+  });
+
+  it('should join multi-line data and ignore comments', () => {
+    const { events } = parse([': keep-alive\ndata: first\ndata: second\n\n']);
+
+    expect(events).toEqual([{ type: 'message', data: 'first\nsecond', lastEventId: '' }]);
+  });
+
+  it('should handle lines split across chunks and CRLF line endings', () => {
+    const { events } = parse(['\uFEFFdata: hel', 'lo\r', '\n\r\n', 'data: next\r\r']);
+
+    expect(events.map(event => event.data)).toEqual(['hello', 'next']);
+  });
+
+  it('should report retry delays and skip events without data', () => {
+    const { events, retries } = parse(['retry: 5000\nretry: soon\nevent: ping\n\n']);
+
+    expect(retries).toEqual([5000]);
+    expect(events).toEqual([]);
+  });
+
+  it('should report ids from blocks without data for resuming', () => {
+    const { events, ids } = parse(['id: 1\ndata: first\n\nid: 2\n\n: keep-alive\n\nid\n\n']);
+
+    expect(events.map(event => event.lastEventId)).toEqual(['1']);
+    expect(ids).toEqual(['1', '2', '']);
+  });
+
+  it('should not dispatch an event the stream did not finish', () => {
+    const { events } = parse(['data: complete\n\ndata: partial\n']);
+
+    expect(events.map(event => event.data)).toEqual(['complete']);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { isValidMqttTopicFilter, isValidMqttTopicName, mqttConfigSchema } from '../../src/utils/validation';
+import {
+  encodeConnect,
+  createMqttPacketReader,
+  testMqttConnection,
+  MqttPacket,
+} from '../../src/services/realtime/mqtt';
+
+describe('MQTT topic validation', () => {
+  it('should accept filters with whole-level wildcards', () => {
+    ['sensors/+/temperature', 'sensors/#', '#', '+', '+/+', '/leading/slash', '$SYS/broker/#'].forEach(filter => {
+      expect(isValidMqttTopicFilter(filter)).toBe(true);
+    });
+  });
+
+  it('should reject misplaced wildcards and empty filters', () => {
+    ['', 'sensors/#/temperature', 'sensors#', 'sensors/temp+', 'a/b+c', 'sensors/\0'].forEach(filter => {
+      expect(isValidMqttTopicFilter(filter)).toBe(false);
+    });
+  });
+
+  it('should not allow wildcards in topic names', () => {
+    expect(isValidMqttTopicName('clients/device-1/status')).toBe(true);
+    expect(isValidMqttTopicName('clients/+/status')).toBe(false);
+    expect(isValidMqttTopicName('clients/#')).toBe(false);
+  });
+
+  it('should report invalid topics and require a client ID for persistent sessions', async () => {
+    const config = {
+      brokerUrl: 'mqtt://localhost:1883',
+      topics: ['sensors/#/temperature'],
+      qos: 1,
+      cleanSession: false,
+    };
+
+    await expect(mqttConfigSchema.validate(config, { abortEarly: false })).rejects.toMatchObject({
+      errors: expect.arrayContaining([
+        'Invalid topic filter: sensors/#/temperature',
+        'A persistent session needs a client ID',
+      ]),
+    });
+  });
+});
+
+describe('MQTT packets', () => {
+  it('should encode a CONNECT packet with credentials', () => {
+    const packet = encodeConnect({ clientId: 'probe', keepAlive: 60, username: 'u', password: 'p' });
+
+    expect(Array.from(packet)).toEqual([
+      0x10, 23,
+      0, 4, 77, 81, 84, 84, // "MQTT"
+      4, // protocol level
+      0xc2, // username, password, clean session
+      0, 60,
+      0, 5, 112, 114, 111, 98, 101, // "probe"
+      0, 1, 117, // "u"
+      0, 1, 112, // "p"
+    ]);
+  });
+
+  it('should leave out a password without a username', () => {
+    const packet = encodeConnect({ clientId: 'probe', keepAlive: 60, password: 'p' });
+
+    expect(packet[9]).toBe(0x02); // clean session only
+    expect(Array.from(packet.slice(-7))).toEqual([0, 5, 112, 114, 111, 98, 101]);
+  });
+
+  it('should read packets split across and combined in messages', () => {
+    const packets: MqttPacket[] = [];
+    const reader = createMqttPacketReader(packet => packets.push(packet));
+
+    reader.push(Uint8Array.from([0x20, 2, 0]));
+    reader.push(Uint8Array.from([0, 0x90, 3, 0, 1, 1]));
+
+    expect(packets.map(packet => [packet.type, Array.from(packet.body)])).toEqual([
+      [2, [0, 0]],
+      [9, [0, 1, 1]],
+    ]);
+  });
+});
+
+describe('testMqttConnection', () => {
+  // Stays in CONNECTING until the test opens it
+  class FakeSocket {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static CLOSED = 3;
+    static last: FakeSocket;
+    readyState = FakeSocket.CONNECTING;
+    binaryType = 'blob';
+    sent: Uint8Array[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: ArrayBuffer }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor() {
+      FakeSocket.last = this;
+    }
+
+    send(data: Uint8Array) {
+      this.sent.push(data);
+    }
+
+    close() {
+      this.readyState = FakeSocket.CLOSED;
+    }
+  }
+
+  const originalWebSocket = global.WebSocket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (global as any).WebSocket = FakeSocket;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  it('should close a socket that is still connecting when the test times out', async () => {
+    const result = testMqttConnection({ url: 'ws://localhost:9001', topics: [], timeout: 1000 });
+    const socket = FakeSocket.last;
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(result).resolves.toMatchObject({ success: false });
+    expect(socket.readyState).toBe(FakeSocket.CLOSED);
+
+    socket.onopen?.();
+    expect(socket.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+import React from 'react';
+import { configureStore } from '@reduxjs/toolkit';
+import { Provider } from 'react-redux';
+import { REHYDRATE } from 'redux-persist';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import outboxReducer, {
+  applyOutboxEntries,
+  enqueueMutation,
+  replayOutboxThunk,
+  OutboxEntry,
+} from '../../src/store/slices/outboxSlice';
+import dataSourcesReducer, { createDataSourceThunk } from '../../src/store/slices/dataSourcesSlice';
+import { useOutbox } from '../../src/hooks/useOutbox';
+import * as dataSourcesApi from '../../src/services/api/dataSources';
+import { ConflictError, NetworkError } from '../../src/services/api/errors';
+import { DataSourceConfig } from '../../src/components/data-sources/ConfigurationForm/types';
+
+jest.mock('../../src/services/api/dataSources');
+jest.mock('../../src/store', () => {
+  const { useDispatch, useSelector } = jest.requireActual('react-redux');
+  return { useAppDispatch: useDispatch, useAppSelector: useSelector };
+});
+
+const api = dataSourcesApi as jest.Mocked<typeof dataSourcesApi>;
+
+const config: DataSourceConfig = {
+  name: 'Orders API',
+  protocol: 'http',
+  connectionDetails: { url: 'https://orders.example.com', method: 'GET' },
+};
+
+const saved = { ...config, id: 'ds-1', createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' };
+
+const makeStore = () =>
+  configureStore({ reducer: { outbox: outboxReducer, dataSources: dataSourcesReducer } });
+
+const entry = (id: string, status: OutboxEntry['status']): OutboxEntry => ({
+  id,
+  operation: { type: 'delete', id: `ds-${id}` },
+  enqueuedAt: 0,
+  status,
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('outboxSlice', () => {
+  it('should fold edits of a locally created data source into its create', () => {
+    let state = outboxReducer(undefined, enqueueMutation({ type: 'create', data: config }, 'local-1'));
+    state = outboxReducer(state, enqueueMutation({ type: 'update', id: 'local-1', data: { name: 'Orders' } }));
+
+    expect(state.entries).toHaveLength(1);
+    expect(state.entries[0].operation).toEqual({ type: 'create', data: { ...config, name: 'Orders' } });
+
+    state = outboxReducer(state, enqueueMutation({ type: 'delete', id: 'local-1' }));
+    expect(state.entries).toEqual([]);
+  });
+
+  it('should restore entries that were replaying as pending on rehydrate', () => {
+    const state = outboxReducer(undefined, {
+      type: REHYDRATE,
+      key: 'outbox',
+      payload: { entries: [entry('a', 'replaying'), entry('b', 'conflict')] },
+    });
+
+    expect(state.replaying).toBe(false);
+    expect(state.entries.map(item => item.status)).toEqual(['pending', 'conflict']);
+  });
+});
+
+describe('applyOutboxEntries', () => {
+  it('should only show queued creates that match the list query, in sort order', () => {
+    const queued = (id: string, name: string, protocol: DataSourceConfig['protocol']): OutboxEntry => ({
+      id,
+      operation: { type: 'create', data: { ...config, name, protocol } },
+      enqueuedAt: 0,
+      status: 'pending',
+    });
+    const listed = [{ ...saved, name: 'Alpha' }, { ...saved, id: 'ds-2', name: 'Charlie' }];
+
+    const items = applyOutboxEntries(
+      listed,
+      [queued('local-1', 'Bravo', 'http'), queued('local-2', 'Delta', 'grpc')],
+      { protocol: 'http', sort: 'name', order: 'asc' }
+    );
+
+    expect(items.map(item => item.name)).toEqual(['Alpha', 'Bravo', 'Charlie']);
+  });
+});
+
+describe('replayOutboxThunk', () => {
+  it('should replay entries in order and stop at the first network error', async () => {
+    const store = makeStore();
+    store.dispatch(enqueueMutation({ type: 'delete', id: 'ds-1' }));
+    store.dispatch(enqueueMutation({ type: 'delete', id: 'ds-2' }));
+    store.dispatch(enqueueMutation({ type: 'delete', id: 'ds-3' }));
+    api.deleteDataSource
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new NetworkError('No response'));
+
+    const result = await store.dispatch(replayOutboxThunk());
+
+    expect(result.payload).toEqual({ replayed: 1, conflicts: 0 });
+    expect(api.deleteDataSource.mock.calls).toEqual([['ds-1'], ['ds-2']]);
+    expect(store.getState().outbox.entries.map(item => item.operation)).toEqual([
+      { type: 'delete', id: 'ds-2' },
+      { type: 'delete', id: 'ds-3' },
+    ]);
+    expect(store.getState().outbox.entries.every(item => item.status === 'pending')).toBe(true);
+  });
+
+  it('should mark entries the server rejects as conflicts', async () => {
+    const store = makeStore();
+    store.dispatch(enqueueMutation({ type: 'update', id: 'ds-1', data: { name: 'Orders' } }));
+    api.updateDataSource.mockRejectedValueOnce(new ConflictError('Changed on the server', null));
+
+    const result = await store.dispatch(replayOutboxThunk());
+
+    expect(result.payload).toEqual({ replayed: 0, conflicts: 1 });
+    expect(store.getState().outbox.entries[0]).toMatchObject({
+      status: 'conflict',
+      error: 'Changed on the server',
+    });
+  });
+
+  it('should replay a create with the idempotency key it was first sent with', async () => {
+    const store = makeStore();
+    api.createDataSource.mockRejectedValueOnce(new NetworkError('No response'));
+
+    await store.dispatch(createDataSourceThunk(config));
+    const [queued] = store.getState().outbox.entries;
+    const [, firstOptions] = api.createDataSource.mock.calls[0];
+    expect(firstOptions).toEqual({ idempotencyKey: queued.id });
+
+    api.createDataSource.mockResolvedValueOnce(saved);
+    await store.dispatch(replayOutboxThunk());
+
+    expect(api.createDataSource).toHaveBeenLastCalledWith(config, { idempotencyKey: queued.id });
+    expect(store.getState().outbox.entries).toEqual([]);
+  });
+
+  it('should replay again after the app was closed during a replay', async () => {
+    const before = makeStore();
+    before.dispatch(enqueueMutation({ type: 'create', data: config }));
+    api.createDataSource.mockReturnValueOnce(new Promise(() => undefined));
+    before.dispatch(replayOutboxThunk());
+
+    const { entries, replaying } = before.getState().outbox;
+    expect(replaying).toBe(true);
+    expect(entries[0].status).toBe('replaying');
+
+    // What storage holds: the replaying flag is not persisted
+    const after = makeStore();
+    after.dispatch({ type: REHYDRATE, key: 'outbox', payload: { entries } });
+    api.createDataSource.mockResolvedValueOnce(saved);
+    const result = await after.dispatch(replayOutboxThunk());
+
+    expect(result.payload).toEqual({ replayed: 1, conflicts: 0 });
+    expect(api.createDataSource).toHaveBeenLastCalledWith(config, { idempotencyKey: entries[0].id });
+    expect(after.getState().outbox.entries).toEqual([]);
+  });
+});
+
+describe('useOutbox', () => {
+  const renderOutbox = (store: ReturnType<typeof makeStore>) =>
+    renderHook(() => useOutbox(), {
+      wrapper: ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>,
+    });
+
+  it('should replay on mount and whenever the browser comes back online', async () => {
+    const store = makeStore();
+    store.dispatch(enqueueMutation({ type: 'delete', id: 'ds-1' }));
+    api.deleteDataSource.mockRejectedValueOnce(new NetworkError('No response'));
+
+    const { result } = renderOutbox(store);
+    await waitFor(() => expect(result.current.replaying).toBe(false));
+    expect(result.current.entries).toHaveLength(1);
+
+    api.deleteDataSource.mockResolvedValueOnce(undefined);
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(result.current.entries).toEqual([]));
+    expect(api.deleteDataSource).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a failed entry', async () => {
+    const store = makeStore();
+    store.dispatch(enqueueMutation({ type: 'delete', id: 'ds-1' }));
+    api.deleteDataSource.mockRejectedValueOnce(new Error('Server exploded'));
+
+    const { result } = renderOutbox(store);
+    await waitFor(() => expect(result.current.conflicts).toHaveLength(1));
+    expect(result.current.pendingChanges['ds-1']).toMatchObject({ status: 'failed' });
+
+    api.deleteDataSource.mockResolvedValueOnce(undefined);
+    act(() => result.current.retryEntry(result.current.entries[0].id));
+
+    await waitFor(() => expect(result.current.entries).toEqual([]));
+  });
+});
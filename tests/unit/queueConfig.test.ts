@@ -0,0 +1,60 @@
+import { ValidationError } from 'yup';
+import { queueConfigSchema } from '../../src/utils/validation';
+import { formatProtocol } from '../../src/utils/formatters';
+
+const validationErrors = async (value: unknown): Promise<string[]> => {
+  try {
+    await queueConfigSchema.validate(value, { abortEarly: false });
+    return [];
+  } catch (error) {
+    return (error as ValidationError).inner.map(item => `${item.path}: ${item.message}`);
+  }
+};
+
+describe('queueConfigSchema', () => {
+  it('should validate queues without a broker type as generic queues', async () => {
+    expect(await validationErrors({ brokerUrl: 'https://queue.example.com', queueName: 'orders' })).toEqual([]);
+  });
+
+  it('should validate each broker type against its own fields', async () => {
+    expect(await validationErrors({
+      brokerType: 'kafka',
+      bootstrapServers: ['kafka-1:9092', 'kafka-2'],
+      topics: ['orders'],
+      sasl: { mechanism: 'scram-sha-512' },
+    })).toEqual([
+      'bootstrapServers[1]: Bootstrap servers must be host:port',
+      'consumerGroup: Consumer group is required',
+      'sasl.username: SASL username is required',
+    ]);
+    expect(await validationErrors({
+      brokerType: 'amqp',
+      brokerUrl: 'https://rabbitmq.example.com',
+      queueName: 'orders',
+      prefetch: 0,
+    })).toEqual([
+      'brokerUrl: Must be an amqp:// or amqps:// URL',
+      'prefetch: Prefetch must be at least 1',
+    ]);
+    expect(await validationErrors({
+      brokerType: 'sqs',
+      region: 'us-east-1',
+      queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+      maxMessages: 20,
+    })).toEqual(['maxMessages: SQS returns at most 10 messages at once']);
+  });
+
+  it('should reject unknown broker types', async () => {
+    expect(await validationErrors({ brokerType: 'nats', brokerUrl: 'https://nats.example.com', queueName: 'orders' }))
+      .toEqual(['brokerType: Unknown broker type']);
+  });
+});
+
+describe('formatProtocol', () => {
+  it('should name the queue broker', () => {
+    expect(formatProtocol('queue', { brokerType: 'kafka' })).toBe('Kafka');
+    expect(formatProtocol('queue', { brokerType: 'amqp' })).toBe('RabbitMQ/AMQP');
+    expect(formatProtocol('queue', { brokerUrl: 'https://queue.example.com' })).toBe('Message Queue');
+    expect(formatProtocol('queue')).toBe('Message Queue');
+  });
+});
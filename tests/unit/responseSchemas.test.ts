@@ -0,0 +1,67 @@
+import {
+  dataSourceListResponseSchema,
+  onContractViolation,
+  parseResponse,
+} from '../../src/services/api/schemas';
+import { ContractViolationError } from '../../src/services/api/errors';
+
+const validDataSource = {
+  id: '1',
+  name: 'Test API',
+  protocol: 'http',
+  connectionDetails: { url: 'https://api.test.com' },
+  enabled: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00.000+02:00',
+};
+
+describe('Response schemas', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept a well-formed data source list', () => {
+    const result = parseResponse(dataSourceListResponseSchema, [validDataSource], 'GET /data-sources');
+    expect(result).toEqual([validDataSource]);
+  });
+
+  it('should reject a data source without an id', () => {
+    const { id, ...withoutId } = validDataSource;
+
+    expect(() =>
+      parseResponse(dataSourceListResponseSchema, [withoutId], 'GET /data-sources')
+    ).toThrow(ContractViolationError);
+  });
+
+  it('should reject unknown protocols', () => {
+    const payload = [{ ...validDataSource, protocol: 'ftp' }];
+
+    expect(() =>
+      parseResponse(dataSourceListResponseSchema, payload, 'GET /data-sources')
+    ).toThrow(ContractViolationError);
+  });
+
+  it('should reject timestamps that are not ISO 8601', () => {
+    const payload = [{ ...validDataSource, createdAt: '01/02/2024' }];
+
+    expect(() =>
+      parseResponse(dataSourceListResponseSchema, payload, 'GET /data-sources')
+    ).toThrow(/ISO 8601/);
+  });
+
+  it('should notify contract violation listeners', () => {
+    const listener = jest.fn();
+    const unsubscribe = onContractViolation(listener);
+
+    expect(() =>
+      parseResponse(dataSourceListResponseSchema, { items: [] }, 'GET /data-sources')
+    ).toThrow(ContractViolationError);
+    expect(listener).toHaveBeenCalledWith(expect.any(ContractViolationError), { items: [] });
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,106 @@
+import { AxiosError } from 'axios';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  computeRetryDelay,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../../src/services/api/retry';
+
+const noJitter: RetryPolicy = { ...DEFAULT_RETRY_POLICY, jitter: 'none' };
+
+const makeError = (
+  method: string,
+  status?: number,
+  headers: Record<string, string> = {}
+): AxiosError =>
+  ({
+    isAxiosError: true,
+    config: { method },
+    response: status === undefined ? undefined : { status, headers },
+  } as unknown as AxiosError);
+
+describe('Retry policy', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should return null when retries are disabled', () => {
+      expect(resolveRetryPolicy(false)).toBeNull();
+    });
+
+    it('should merge overrides into the defaults', () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 5 });
+      expect(policy?.maxAttempts).toBe(5);
+      expect(policy?.baseDelay).toBe(DEFAULT_RETRY_POLICY.baseDelay);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse an HTTP date relative to now', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    });
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should grow exponentially and respect maxDelay', () => {
+      expect(computeRetryDelay(1, noJitter)).toBe(300);
+      expect(computeRetryDelay(2, noJitter)).toBe(600);
+      expect(computeRetryDelay(10, noJitter)).toBe(noJitter.maxDelay);
+    });
+
+    it('should apply full jitter', () => {
+      const policy: RetryPolicy = { ...noJitter, jitter: 'full' };
+      expect(computeRetryDelay(2, policy, () => 0.5)).toBe(300);
+    });
+
+    it('should apply equal jitter', () => {
+      const policy: RetryPolicy = { ...noJitter, jitter: 'equal' };
+      expect(computeRetryDelay(2, policy, () => 0)).toBe(300);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should retry GET requests that failed with a retryable status', () => {
+      expect(getRetryDelay(makeError('get', 503), 1, noJitter)).toBe(300);
+    });
+
+    it('should retry GET requests that got no response', () => {
+      expect(getRetryDelay(makeError('get'), 1, noJitter)).toBe(300);
+    });
+
+    it('should never retry POST requests by default', () => {
+      expect(getRetryDelay(makeError('post', 503), 1, noJitter)).toBeNull();
+    });
+
+    it('should not retry client errors', () => {
+      expect(getRetryDelay(makeError('get', 404), 1, noJitter)).toBeNull();
+    });
+
+    it('should stop after maxAttempts', () => {
+      expect(getRetryDelay(makeError('get', 503), noJitter.maxAttempts, noJitter)).toBeNull();
+    });
+
+    it('should honor Retry-After when present', () => {
+      const error = makeError('get', 429, { 'retry-after': '2' });
+      expect(getRetryDelay(error, 1, noJitter)).toBe(2000);
+    });
+
+    it('should give up when Retry-After exceeds maxDelay', () => {
+      const error = makeError('get', 503, { 'retry-after': '120' });
+      expect(getRetryDelay(error, 1, noJitter)).toBeNull();
+    });
+
+    it('should not retry when the policy is disabled', () => {
+      expect(getRetryDelay(makeError('get', 503), 1, null)).toBeNull();
+    });
+  });
+});
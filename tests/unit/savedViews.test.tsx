@@ -0,0 +1,109 @@
+import React from 'react';
+import { configureStore } from '@reduxjs/toolkit';
+import { Provider } from 'react-redux';
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import savedViewsReducer, {
+  ANONYMOUS_USER,
+  saveView,
+  renameView,
+  deleteView,
+  selectSavedViews,
+} from '../../src/store/slices/savedViewsSlice';
+import { useSavedViews } from '../../src/hooks/useSavedViews';
+import { SavedViewsMenu } from '../../src/components/data-sources/SavedViewsMenu';
+
+jest.mock('../../src/store', () => {
+  const { useDispatch, useSelector } = jest.requireActual('react-redux');
+  return { useAppDispatch: useDispatch, useAppSelector: useSelector };
+});
+
+const makeStore = (user: { id: string } | null) =>
+  configureStore({
+    reducer: {
+      savedViews: savedViewsReducer,
+      auth: (state: { user: { id: string } | null } = { user }) => state,
+    },
+  });
+
+describe('savedViewsSlice', () => {
+  it('should replace a view saved again under the same name', () => {
+    let state = savedViewsReducer(undefined, saveView({ userId: 'u-1', name: ' Errors ', search: 'status=error' }));
+    const [first] = state.byUser['u-1'];
+    state = savedViewsReducer(state, saveView({ userId: 'u-1', name: 'Errors', search: 'status=error&sort=name' }));
+
+    expect(state.byUser['u-1']).toEqual([
+      expect.objectContaining({ id: first.id, name: 'Errors', search: 'status=error&sort=name' }),
+    ]);
+  });
+
+  it('should rename and delete only the given user\'s views', () => {
+    let state = savedViewsReducer(undefined, saveView({ userId: 'u-1', name: 'Mine', search: 'tag=a' }));
+    state = savedViewsReducer(state, saveView({ userId: 'u-2', name: 'Theirs', search: 'tag=b' }));
+    const [mine] = state.byUser['u-1'];
+
+    state = savedViewsReducer(state, renameView({ userId: 'u-1', id: mine.id, name: 'Renamed ' }));
+    expect(selectSavedViews('u-1')({ savedViews: state }).map(view => view.name)).toEqual(['Renamed']);
+
+    state = savedViewsReducer(state, deleteView({ userId: 'u-2', id: mine.id }));
+    expect(state.byUser['u-1']).toHaveLength(1);
+
+    state = savedViewsReducer(state, deleteView({ userId: 'u-1', id: mine.id }));
+    expect(selectSavedViews('u-1')({ savedViews: state })).toEqual([]);
+    expect(state.byUser['u-2']).toHaveLength(1);
+  });
+});
+
+describe('useSavedViews', () => {
+  const renderSavedViews = (store: ReturnType<typeof makeStore>) =>
+    renderHook(() => useSavedViews(), {
+      wrapper: ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>,
+    });
+
+  it('should save views for the signed-in user', () => {
+    const store = makeStore({ id: 'u-1' });
+    const { result } = renderSavedViews(store);
+
+    act(() => {
+      result.current.saveView('Errors', 'status=error');
+    });
+
+    expect(result.current.views.map(view => view.name)).toEqual(['Errors']);
+    expect(Object.keys(store.getState().savedViews.byUser)).toEqual(['u-1']);
+  });
+
+  it('should keep views of signed-out visitors under the anonymous user', () => {
+    const store = makeStore(null);
+    const { result } = renderSavedViews(store);
+
+    act(() => {
+      result.current.saveView('Errors', 'status=error');
+    });
+    act(() => {
+      result.current.deleteView(result.current.views[0].id);
+    });
+
+    expect(store.getState().savedViews.byUser[ANONYMOUS_USER]).toEqual([]);
+  });
+});
+
+describe('SavedViewsMenu', () => {
+  it('should show the link to copy by hand when the clipboard is unavailable', async () => {
+    render(
+      <SavedViewsMenu
+        views={[]}
+        currentSearch=""
+        onApply={jest.fn()}
+        onSave={jest.fn()}
+        onDelete={jest.fn()}
+        shareUrl="https://app.example.com/data-sources?status=error"
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Saved Views' }));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Copy link' }));
+
+    expect(await screen.findByText(
+      'Could not copy link, copy it by hand: https://app.example.com/data-sources?status=error'
+    )).toBeTruthy();
+  });
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { configureStore } from '@reduxjs/toolkit';
+import { Provider } from 'react-redux';
+import { renderHook, waitFor } from '@testing-library/react';
+import dataSourcesReducer from '../../src/store/slices/dataSourcesSlice';
+import outboxReducer from '../../src/store/slices/outboxSlice';
+import { useDataSources } from '../../src/hooks/useDataSources';
+import * as dataSourcesApi from '../../src/services/api/dataSources';
+import { deserializeApiError, PermissionError } from '../../src/services/api/errors';
+
+jest.mock('../../src/services/api/dataSources');
+jest.mock('../../src/store', () => {
+  const { useDispatch, useSelector } = jest.requireActual('react-redux');
+  return { useAppDispatch: useDispatch, useAppSelector: useSelector };
+});
+
+const api = dataSourcesApi as jest.Mocked<typeof dataSourcesApi>;
+
+const orders = {
+  id: 'ds-1',
+  name: 'Orders API',
+  protocol: 'http' as const,
+  connectionDetails: { url: 'https://orders.example.com' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const makeStore = () =>
+  configureStore({ reducer: { dataSources: dataSourcesReducer, outbox: outboxReducer } });
+
+const renderDataSources = (store: ReturnType<typeof makeStore>) =>
+  renderHook(() => useDataSources(), {
+    wrapper: ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>,
+  });
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('useDataSources', () => {
+  it('should keep loading for other instances when one unmounts', async () => {
+    let resolve: (items: typeof orders[]) => void = () => undefined;
+    api.fetchAllDataSources.mockReturnValueOnce(new Promise(done => { resolve = done; }));
+    const store = makeStore();
+
+    const first = renderDataSources(store);
+    const second = renderDataSources(store);
+    first.unmount();
+    resolve([orders]);
+
+    await waitFor(() => expect(second.result.current.dataSources).toEqual([orders]));
+    expect(api.fetchAllDataSources).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the error class of a failed fetch', async () => {
+    api.fetchAllDataSources.mockRejectedValueOnce(new PermissionError('Forbidden', { status: 403 }));
+    const store = makeStore();
+
+    const { result } = renderDataSources(store);
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(deserializeApiError(result.current.error!)).toBeInstanceOf(PermissionError);
+  });
+});